@@ -20,7 +20,8 @@ module.exports = {
       files: [
         'src/**/*.vue',
         'src/**/*.ts',
-        'src/**/*.d.ts'
+        'src/**/*.d.ts',
+        'test/**/*.ts'
       ],
       extends: [
         'eslint:recommended',
@@ -26,6 +26,7 @@ const users: UserData[] = [
     groups: [],
     identityStoreUserId: '',
     managedActiveDirectoryId: 'd-123456',
+    ssoRegion: 'us-east-1',
     middleName: '',
     name: 'demo user',
     originSessionId: '',
@@ -60,6 +61,7 @@ const users: UserData[] = [
       colorHeader: true,
       colorFooter: true,
       colorDefault: '222f3e',
+      cliProfileName: '{{accountName}}-{{profile}}',
       profiles: {
         'p-123': {
           color: '23b0ff',
@@ -276,6 +278,7 @@ const demoData: ExtensionData = {
       sortCustom: false,
       sortApp: 'desc',
       sortProfile: false,
+      groupTag: null,
     },
   },
 };
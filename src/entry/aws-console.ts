@@ -1,7 +1,8 @@
 import extension from '../extension';
-import { getFontColor, waitForElement } from '../utils';
+import { confirmProtected, getFontColor, waitForElement } from '../utils';
+import { openPalette } from '../utils/palette';
 import {
-  UserData, AppData, ExtensionData, IamRole,
+  UserData, AppData, ExtensionData, IamRole, ProfileTarget,
 } from '../types';
 
 /* assume IAM roles for SSO users / redirect to switchrole */
@@ -84,10 +85,38 @@ function findIamRole(aws: AwsConsole): IamRole {
       });
     }
   });
+  // roles from the shared baseline, after personal ones
+  aws.data?.appProfiles.forEach((profile) => {
+    extension.baselineIamRoles(profile).forEach((role) => {
+      if (role.accountId === aws.accountId && role.roleName === aws.roleName) {
+        iamRoles.push(role);
+      }
+    });
+  });
   extension.log(iamRoles);
   return iamRoles.filter((r) => r.profileId === aws.data?.settings.lastProfileId)[0];
 }
 
+function switchIamLogin(aws: AwsConsole, role: IamRole) {
+  const ap = aws.appProfile as AppData;
+  // each hop switches with its own label & color
+  aws.iamRole = role;
+  aws.userType = 'iam';
+  const label = encodeURIComponent(sessionLabel(aws));
+  extension.advanceIamLogin(role).then(() => {
+    extension.switchRole(
+      label,
+      role,
+      // bookmark, role account default, fallback to the sso profile default
+      role.destination || extension.consoleDestination(
+        aws.user!.partition,
+        extension.mergedAccounts(aws.user!)[role.accountId],
+        ap.profile.custom,
+      ),
+    );
+  });
+}
+
 function checkIamLogins(aws: AwsConsole) {
   extension.log('console:checkIamLogins');
   const data = aws.data as ExtensionData;
@@ -96,17 +125,22 @@ function checkIamLogins(aws: AwsConsole) {
   if (ap.profile.id in data.iamLogins) {
     const role: IamRole = data.iamLogins[ap.profile.id];
     if (role.profileId === ap.profile.id) {
-      aws.iamRole = role;
-      aws.userType = 'iam';
-      extension.switchRole(
-        encodeURIComponent(sessionLabel(aws)),
-        role,
-      );
-      extension.removeIamLogin(role.profileId);
+      switchIamLogin(aws, role);
     }
   }
 }
 
+function checkIamLoginChain(aws: AwsConsole) {
+  extension.log('console:checkIamLoginChain');
+  const role: IamRole | undefined = aws.data!.iamLogins[aws.appProfile!.profile.id];
+  // landed on the source of the next hop, keep walking the chain
+  if (role?.sourceRole?.accountId === aws.accountId && role.sourceRole.roleName === aws.roleName) {
+    switchIamLogin(aws, role);
+  } else {
+    extension.removeIamLogin(aws.appProfile!.profile.id);
+  }
+}
+
 function getMenu() {
   return waitForElement('#menu--account');
 }
@@ -130,10 +164,15 @@ function customizeConsole(aws: AwsConsole): void {
   extension.log('customizeConsole');
   const defaultHeader = 'Services';
   const defaultFooter = '© 2023, Amazon Web Services, Inc. or its affiliates.';
-  const label = sessionLabel(aws);
-  const color = aws.userType === 'iam' && aws.iamRole!.color !== ''
-    ? aws.iamRole!.color
-    : aws.appProfile?.profile.custom?.color;
+  // rules only fill in labels & colors that aren't customized
+  const label = extension.prefixLabel(sessionLabel(aws), aws.user!, aws.appProfile!, aws.iamRole);
+  let color = aws.appProfile?.profile.custom?.color;
+  if (aws.userType === 'iam') {
+    const rule = extension.matchRule(aws.user!, aws.appProfile!, aws.iamRole);
+    color = extension.isDefaultColor(aws.iamRole!.color, aws.user!)
+      ? rule?.color || aws.iamRole!.color || color
+      : aws.iamRole!.color;
+  }
   // customize
   let headerLblPromise;
   let footerLblPromise;
@@ -164,44 +203,131 @@ function customizeConsole(aws: AwsConsole): void {
   // iam user has header already applied
   if (aws.user!.custom.labelHeader) {
     getHeaderLabel(aws.userType).then((headerLbl) => {
-      headerLbl.textContent = `${aws.user?.custom.labelIcon && aws.appProfile?.profile.custom?.icon ? aws.appProfile?.profile.custom?.icon : ''} ${label || defaultHeader}`;
+      const headerText = `${aws.user?.custom.labelIcon && aws.appProfile?.profile.custom?.icon ? aws.appProfile?.profile.custom?.icon : ''} ${label || defaultHeader}`;
+      headerLbl.textContent = headerText;
+      if (aws.userType === 'sso') {
+        // sso session countdown
+        const updateRemaining = () => extension.loadSessions().then((sessions) => {
+          const expiresAt = extension.sessionExpiresAt(sessions, aws.user!, aws.appProfile!);
+          headerLbl.textContent = expiresAt
+            ? `${headerText} (${extension.formatRemaining(expiresAt - Date.now())})`
+            : headerText;
+        });
+        updateRemaining();
+        setInterval(updateRemaining, 60 * 1000);
+      }
     });
   }
 
+  if (extension.isProtected(aws.user!, aws.appProfile!, aws.iamRole)) {
+    addProtectedBanner(label, color || aws.user!.custom.colorDefault);
+  }
+
   if (aws.data?.settings.copyLinkButton){
-    // make a copy link button
+    // make copy link & bookmark buttons
     waitForElement("#awsc-navigation__more-menu--list").then((menuList) => {
       getHeaderLabel(aws.userType).then((headerLbl) => {
-        var parentElement:HTMLElement|null = headerLbl;
-        var priorNode: HTMLElement|null=null;
-        var copiedNode:HTMLElement|null=null;
-        // find the li element which is parent of the header label button, shallow clone so we can create a new element with matching style, but not create the other child elements
-        while ( parentElement && (priorNode==null || priorNode.nodeName!="LI") )
-        {
-          copiedNode=<HTMLElement>parentElement.cloneNode()
-          // if it's a button we'll change the id to be unique from the label button
-          if (copiedNode.nodeName=="BUTTON") copiedNode.id="copyLinkButton"
-          // Append the element as a child for each time we go through the loop after the first.  The childmost element will have its text updated
-          if (priorNode) {copiedNode.appendChild(priorNode)} else {copiedNode.textContent="Copy Link"; copiedNode.title="Copy link to current AWS console page"}
-          priorNode=copiedNode
-          parentElement=parentElement.parentElement
-        }
-        // add the new node we made in the above loop to the nav bar
-        if (copiedNode) menuList.append(copiedNode);
-        // run the function below when the button is clicked
-        document.getElementById("copyLinkButton")?.addEventListener("click", () => copyToClipBoard(aws.user!.managedActiveDirectoryId,aws.accountId!,aws.ssoRoleName!))
+        addHeaderButton(menuList, headerLbl, "copyLinkButton", "Copy Link", "Copy link to current AWS console page", () => copyToClipBoard(aws.user!,aws.accountId!,aws.ssoRoleName!));
+        addHeaderButton(menuList, headerLbl, "bookmarkButton", "Bookmark", "Save current AWS console page as a profile bookmark", () => saveBookmark(aws));
       });
     });
   }
 }
 
+function paletteLink(item: ProfileTarget): string {
+  if (item.role) {
+    // anyone signed in to the source account can use a switchrole link
+    return `https://${extension.partitionHosts(item.user.partition).signin}/switchrole?roleName=${encodeURIComponent(item.role.roleName)}&account=${item.role.accountId}&displayName=${encodeURIComponent(item.label)}`;
+  }
+  return `${extension.portalUrl(item.user.managedActiveDirectoryId, item.user.partition)}/#/console?account_id=${item.profile.searchMetadata!.AccountId}&role_name=${item.profile.profile.name}&destination=${encodeURIComponent(window.location.href)}`;
+}
+
+function openPaletteItem(aws: AwsConsole, item: ProfileTarget, newTab: boolean) {
+  if (extension.isProtected(item.user, item.profile, item.role) && !confirmProtected(item.label)) {
+    return;
+  }
+  // already signed in to the source profile, switch without the portal
+  if (item.role && !item.role.sourceRole && !newTab && aws.userType === 'sso' && aws.appProfile?.profile.id === item.role.profileId) {
+    extension.switchRole(encodeURIComponent(item.label), item.role, window.location.href);
+    return;
+  }
+  extension.config.browser.runtime.sendMessage({
+    action: 'launchProfile',
+    profileId: item.profile.profile.id,
+    iamRole: item.role,
+    newTab,
+  });
+}
+
+function listenPalette(aws: AwsConsole) {
+  document.addEventListener('keydown', async (event) => {
+    // alt+shift+p
+    if (!(event.altKey && event.shiftKey && event.code === 'KeyP')) { return; }
+    event.preventDefault();
+    aws.data ??= await extension.loadData();
+    openPalette(extension.profileTargets(aws.data), {
+      open: (item, newTab) => openPaletteItem(aws, item, newTab),
+      copyLink: (item) => navigator.clipboard.writeText(paletteLink(item)),
+    });
+  });
+}
+
+function addProtectedBanner(label: string, color: string) {
+  // border & banner stay above the console, clicks pass through
+  const frame = document.createElement('div');
+  frame.id = 'awsSsoExtenderProtected';
+  frame.style.cssText = `position: fixed; inset: 0; z-index: 2147483647; pointer-events: none;
+    box-shadow: inset 0 0 0 6px #de2d35;`;
+  const banner = document.createElement('div');
+  banner.textContent = `⚠ PROTECTED ⚠ ${label}`;
+  banner.style.cssText = `position: fixed; bottom: 40px; left: 50%; transform: translateX(-50%);
+    padding: 4px 16px; border-radius: 4px; font: bold 14px sans-serif; letter-spacing: 1px;
+    background: repeating-linear-gradient(45deg, #de2d35, #de2d35 10px, #${color} 10px, #${color} 20px);
+    color: white; text-shadow: 0 0 3px black; opacity: .9;`;
+  frame.appendChild(banner);
+  document.body.appendChild(frame);
+  // the console re-renders parts of the page, keep the banner attached
+  new MutationObserver(() => {
+    if (!document.getElementById(frame.id)) { document.body.appendChild(frame); }
+  }).observe(document.body, { childList: true });
+}
+
+function addHeaderButton(menuList: HTMLElement, headerLbl: HTMLElement, id: string, text: string, title: string, onClick: () => void){
+  var parentElement:HTMLElement|null = headerLbl;
+  var priorNode: HTMLElement|null=null;
+  var copiedNode:HTMLElement|null=null;
+  // find the li element which is parent of the header label button, shallow clone so we can create a new element with matching style, but not create the other child elements
+  while ( parentElement && (priorNode==null || priorNode.nodeName!="LI") )
+  {
+    copiedNode=<HTMLElement>parentElement.cloneNode()
+    // if it's a button we'll change the id to be unique from the label button
+    if (copiedNode.nodeName=="BUTTON") copiedNode.id=id
+    // Append the element as a child for each time we go through the loop after the first.  The childmost element will have its text updated
+    if (priorNode) {copiedNode.appendChild(priorNode)} else {copiedNode.textContent=text; copiedNode.title=title}
+    priorNode=copiedNode
+    parentElement=parentElement.parentElement
+  }
+  // add the new node we made in the above loop to the nav bar
+  if (copiedNode) menuList.append(copiedNode);
+  // run the function below when the button is clicked
+  document.getElementById(id)?.addEventListener("click", onClick)
+}
+
 
-function copyToClipBoard(awsDirectoryId: string,accountId: string,ssoRoleName: string){
-  var linkurl="https://"+awsDirectoryId+".awsapps.com/start/#/console?account_id="+accountId+"&role_name="+ssoRoleName+"&destination="+encodeURIComponent(window.location.href);
+function copyToClipBoard(user: UserData,accountId: string,ssoRoleName: string){
+  var linkurl=extension.portalUrl(user.managedActiveDirectoryId,user.partition)+"/#/console?account_id="+accountId+"&role_name="+ssoRoleName+"&destination="+encodeURIComponent(window.location.href);
   navigator.clipboard.writeText(linkurl);
   waitForElement('#copyLinkButton').then(async (el)=> { var textElement=el.querySelector("span"); if (textElement){textElement.textContent="Link Copied"; await delay(1000); textElement.textContent="Copy Link"}})
 }
 
+function saveBookmark(aws: AwsConsole){
+  const label = window.prompt(`Bookmark label for ${sessionLabel(aws)}`, document.title);
+  if (!label) return;
+  extension.saveBookmark(aws.user!, aws.appProfile!, { label, url: window.location.href }, aws.userType === 'iam' ? aws.iamRole : null).then(() => {
+    waitForElement('#bookmarkButton').then(async (el)=> { var textElement=el.querySelector("span"); if (textElement){textElement.textContent="Bookmarked"; await delay(1000); textElement.textContent="Bookmark"}})
+  });
+}
+
 function delay(ms: number) {
   return new Promise( resolve => setTimeout(resolve, ms) );
 }
@@ -271,19 +397,27 @@ if (extension.consoleUrlRegex.test(window.location.href)) {
   // get console info
   init().then((aws) => {
     extension.log(aws);
+    listenPalette(aws);
+
+    // track sso sessions before the header countdown reads them
+    const session = aws.userType === 'sso' && aws.appProfile
+      ? extension.startConsoleSession(aws.user!, aws.appProfile)
+      : Promise.resolve();
 
     // customize defined profiles
-    if (aws.appProfile) {
-      customizeConsole(aws);
-    }
+    session.then(() => {
+      if (aws.appProfile) {
+        customizeConsole(aws);
+      }
+    });
 
     // sso user, check for pending iam logins, switch role (soft POST)
     if (aws.userType === 'sso' && aws.appProfile) {
       checkIamLogins(aws);
 
-      // iam user, check for pending iam logins, remove matching
+      // iam user, continue chained iam logins, remove the rest
     } else if (aws.userType === 'iam' && aws.appProfile) {
-      extension.removeIamLogin(aws.appProfile!.profile.id);
+      checkIamLoginChain(aws);
     }
   });
 }
@@ -30,7 +30,8 @@ function switchRole(): Boolean {
   return false;
 }
 
-if (window.location.href.includes('signin.aws.amazon.com/switchrole')) {
+const { signin } = extension.partitionHosts(extension.partitionFromUrl(window.location.href));
+if (window.location.href.startsWith(`https://${signin}/switchrole`)) {
   // parse query string
   const query = parseQuery(window.location.search);
   extension.log(query);
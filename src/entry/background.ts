@@ -1,97 +1,353 @@
 import extension from '../extension';
-import { ExtensionData, ExtensionMessage, ExtensionSettings } from '../types';
+import {
+  ExtensionData, ExtensionMessage, ExtensionSettings, IamRole, ProfileTarget,
+} from '../types';
 import { createFirefoxContainer, listenConsole } from '../utils';
+import { rankTargets } from '../utils/search';
 
 extension.log('background:init');
-extension.loadData().then((data: ExtensionData) => {
-  // set extension icon color
-  extension.config.browser.action.setIcon({
-    path: `/icons/${data.settings.iconColor}/128.png`,
+
+// upgrade stored data before anything reads it, a no-op once current
+const migrated = extension.migrateData().catch((err) => {
+  extension.log('background:migrateData:failed', 'error', err);
+});
+
+// listeners are registered up front & wake the worker, each loads fresh data
+function loadData(): Promise<ExtensionData> {
+  return migrated.then(() => extension.loadData());
+}
+
+async function launchProfile(
+  data: ExtensionData,
+  appProfileId: string,
+  iamRole: IamRole | null = null,
+  destination: string | null = null,
+): Promise<void> {
+  const user = extension.findUserByProfileId(appProfileId, data.users);
+  const appProfiles = extension.customizeProfiles(
+    user,
+    data.appProfiles,
+  );
+  const appProfile = extension.findAppProfileById(
+    appProfileId,
+    appProfiles,
+  );
+  extension.log(appProfile);
+  if (extension.isProtected(user, appProfile, iamRole)) {
+    // background can't prompt, confirm from the popup in a new tab
+    const params = new URLSearchParams({ launch: appProfileId });
+    if (iamRole) { params.set('role', `${iamRole.accountId}:${iamRole.roleName}`); }
+    if (destination) { params.set('destination', destination); }
+    await extension.config.browser.tabs.create({
+      url: extension.config.browser.runtime.getURL(`src/popup.html?${params}`),
+    });
+    return;
+  }
+  if (iamRole) {
+    await extension.assumeIamRole(iamRole, appProfile, user, data.users, data.settings);
+    return;
+  }
+  await extension.navSelectedProfile(
+    appProfile,
+    user,
+    data.users,
+    data.settings,
+    destination,
+  );
+}
+
+function launchFailed(err: unknown) {
+  extension.log('background:launchProfile:failed', 'error', err);
+}
+
+async function buildContextMenus() {
+  extension.log('background:buildContextMenus');
+  const data = await loadData();
+  const history = await extension.loadHistory();
+  const menus = extension.config.browser.contextMenus;
+  await menus.removeAll();
+  if (data.users.length === 0) { return; }
+  const appProfiles = data.users.flatMap((user) => extension.customizeProfiles(
+    user,
+    data.appProfiles.filter((ap) => ap.applicationName === 'AWS Account'
+      && user.appProfileIds.includes(ap.profile.id)),
+  ));
+  const patterns = extension.config.permissions.console;
+  const submenus = {
+    favorites: appProfiles.filter((ap) => ap.profile.custom?.favorite),
+    recents: extension.rankRecentProfiles(history, appProfiles).slice(0, 10),
+  };
+  // console links anywhere, e.g. chat, or the console page itself
+  const parents = [
+    { id: 'link', title: 'Open in profile…', targetUrlPatterns: patterns },
+    { id: 'page', title: 'Open page in profile…', documentUrlPatterns: patterns },
+  ] as const;
+  parents.forEach((parent) => {
+    const contexts = [parent.id] as ['link' | 'page'];
+    menus.create({ ...parent, id: `open-${parent.id}`, contexts });
+    Object.entries(submenus).forEach(([submenu, profiles]) => {
+      menus.create({
+        id: `open-${parent.id}:${submenu}`,
+        parentId: `open-${parent.id}`,
+        title: submenu === 'favorites' ? 'Favorites' : 'Recent',
+        contexts,
+        enabled: profiles.length > 0,
+      });
+      profiles.forEach((ap) => {
+        menus.create({
+          id: `open-${parent.id}:${submenu}:${ap.profile.id}`,
+          parentId: `open-${parent.id}:${submenu}`,
+          title: extension.sessionLabelSso(ap, extension.findUserByProfileId(ap.profile.id, data.users)),
+          contexts,
+        });
+      });
+    });
+  });
+}
+
+function listenContextMenus() {
+  let rebuildId: ReturnType<typeof setTimeout> | undefined;
+  // one rebuild at a time, overlapping removeAll & create collide on ids
+  let building = Promise.resolve();
+  const rebuild = () => {
+    building = building.then(buildContextMenus).catch((err) => {
+      extension.log('background:buildContextMenus:failed', 'error', err);
+    });
+  };
+  rebuild();
+  // favorites & recents change with the stored data
+  extension.config.browser.storage.onChanged.addListener((changes) => {
+    // loading data logs, rebuilding on log writes would never settle
+    if (Object.keys(changes).every((key) => key === `${extension.config.name}-log`)) { return; }
+    clearTimeout(rebuildId);
+    rebuildId = setTimeout(rebuild, 1000);
+  });
+  extension.config.browser.contextMenus.onClicked.addListener(async (info) => {
+    // open-link:favorites:profileId
+    const [parent, , profileId] = `${info.menuItemId}`.split(':');
+    if (!parent.startsWith('open-') || profileId === undefined) { return; }
+    const destination = parent === 'open-link' ? info.linkUrl : info.pageUrl;
+    if (!destination?.match(extension.consoleUrlRegex)) { return; }
+    const data = await loadData();
+    await launchProfile(data, profileId, null, destination).catch(launchFailed);
   });
+}
+
+function omniboxDescription(target: ProfileTarget): string {
+  // chrome descriptions are xml, firefox is plain text
+  if (extension.platform !== 'chrome') {
+    return `${target.label} - ${target.detail}`;
+  }
+  const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return `${escape(target.label)} <dim>${escape(target.detail)}</dim>`;
+}
 
-  // listen for hotkey commands
-  extension.config.browser.commands.onCommand.addListener((command) => {
-    extension.log(`background:command:${command}`);
-    // message popup to open profile
-    if (command.startsWith('openProfile')) {
-      extension.log(data);
-      const user = extension.findUser(data);
-      const appProfileId = user.custom.hotkeys[command];
-      extension.log(`background:command:appProfileId:${appProfileId}`);
-      const appProfiles = extension.customizeProfiles(
-        data.users[0],
-        data.appProfiles,
-      );
-      const appProfile = extension.findAppProfileById(
-        appProfileId,
-        appProfiles,
-      );
-      extension.log(appProfile);
-      extension.navSelectedProfile(
-        appProfile,
-        data.users[0],
-        data.users,
-        data.settings,
-      );
+function listenOmnibox() {
+  // suggestion content -> target, for the last input
+  let suggested = new Map<string, ProfileTarget>();
+  extension.config.browser.omnibox.setDefaultSuggestion({
+    description: 'Open an AWS profile or IAM role',
+  });
+  extension.config.browser.omnibox.onInputChanged.addListener(async (text, suggest) => {
+    const data = await loadData();
+    const targets = rankTargets(extension.profileTargets(data), text).slice(0, 8);
+    suggested = new Map();
+    targets.forEach((target) => {
+      // content is shown in the address bar & must be unique
+      let content = target.label;
+      if (suggested.has(content)) { content = `${target.label} (${target.detail})`; }
+      suggested.set(content, target);
+    });
+    suggest([...suggested.entries()].map(([content, target]) => ({
+      content,
+      description: omniboxDescription(target),
+    })));
+  });
+  extension.config.browser.omnibox.onInputEntered.addListener(async (text) => {
+    const data = await loadData();
+    // typed text without picking a suggestion opens the best match
+    const target = suggested.get(text) || rankTargets(extension.profileTargets(data), text)[0];
+    if (target) {
+      await launchProfile(data, target.profile.profile.id, target.role).catch(launchFailed);
     }
   });
+}
 
-  // show release notes on install & update
-  extension.config.browser.runtime.onInstalled.addListener((details) => {
-    const manifest = extension.config.browser.runtime.getManifest();
-    extension.log(`currentVersion: ${manifest.version}`);
-    if (details.reason === 'update') {
-      if (details.previousVersion !== manifest.version) {
-        extension.log(`previousVersion: ${details.previousVersion}`);
-        extension.loadSettings().then((settings: ExtensionSettings) => {
-          if (settings.showReleaseNotes) {
-            const html = `<h2>${extension.config.display} - Updated</h2>
-          <a href="https://github.com/WTFender/aws-sso-extender/releases/tag/v${manifest.version}">
-            ${manifest.version} Release Notes
-          </a>`;
-            extension.config.browser.tabs.create({
-              url: `data:text/html;base64,${btoa(html)}`,
-            });
-          }
-        });
-      }
+async function launchFromPalette(msg: ExtensionMessage, tabId?: number) {
+  extension.log('background:launchFromPalette');
+  const data = await loadData();
+  const user = extension.findUserByProfileId(msg.profileId, data.users);
+  const appProfile = extension.findAppProfileById(
+    msg.profileId!,
+    extension.customizeProfiles(user, data.appProfiles),
+  );
+  if (!appProfile) { return; }
+  if (msg.iamRole) {
+    await extension.queueIamLogin(msg.iamRole, user);
+  }
+  await extension.recordLaunch(appProfile.profile.id, msg.iamRole);
+  await extension.endConsoleSession(appProfile.profile.id);
+  // keeps the current console page as destination
+  const url = await extension.createProfileUrl(user, appProfile);
+  if (msg.newTab || tabId === undefined) {
+    extension.config.browser.tabs.create({ url });
+  } else {
+    extension.config.browser.tabs.update(tabId, { url });
+  }
+}
+
+async function scheduleSessionAlarms() {
+  extension.log('background:scheduleSessionAlarms');
+  const data = await loadData();
+  const sessions = await extension.loadSessions();
+  const alarms = await extension.config.browser.alarms.getAll();
+  await Promise.all(alarms
+    .filter((alarm) => alarm.name.startsWith('session:'))
+    .map((alarm) => extension.config.browser.alarms.clear(alarm.name)));
+  data.users.forEach((user) => {
+    extension.customizeProfiles(user, data.appProfiles)
+      .filter((ap) => user.appProfileIds.includes(ap.profile.id))
+      .forEach((ap) => {
+        const expiresAt = extension.sessionExpiresAt(sessions, user, ap);
+        if (expiresAt !== null) {
+          extension.config.browser.alarms.create(`session:${ap.profile.id}`, {
+            when: extension.sessionWarningAt(expiresAt),
+          });
+        }
+      });
+  });
+}
+
+// show release notes on install & update
+extension.config.browser.runtime.onInstalled.addListener((details) => {
+  const manifest = extension.config.browser.runtime.getManifest();
+  extension.log(`currentVersion: ${manifest.version}`);
+  if (details.reason === 'update') {
+    if (details.previousVersion !== manifest.version) {
+      extension.log(`previousVersion: ${details.previousVersion}`);
+      migrated.then(() => extension.loadSettings()).then((settings: ExtensionSettings) => {
+        if (settings.showReleaseNotes) {
+          const html = `<h2>${extension.config.display} - Updated</h2>
+        <a href="https://github.com/WTFender/aws-sso-extender/releases/tag/v${manifest.version}">
+          ${manifest.version} Release Notes
+        </a>`;
+          extension.config.browser.tabs.create({
+            url: `data:text/html;base64,${btoa(html)}`,
+          });
+        }
+      });
     }
+  }
+});
+
+// set extension icon color
+loadData().then((data) => {
+  extension.config.browser.action.setIcon({
+    path: `/icons/${data.settings.iconColor}/128.png`,
   });
+});
+
+// listen for hotkey commands
+extension.config.browser.commands.onCommand.addListener(async (command) => {
+  extension.log(`background:command:${command}`);
+  // message popup to open profile
+  if (command.startsWith('openProfile')) {
+    const data = await loadData();
+    extension.log(data);
+    const user = extension.findUser(data);
+    const appProfileId = user.custom.hotkeys[command];
+    extension.log(`background:command:appProfileId:${appProfileId}`);
+    await launchProfile(data, appProfileId).catch(launchFailed);
+  }
+});
 
-  if (extension.platform === 'firefox') {
-    // setup listeners on message / settings change
-    extension.config.browser.runtime.onMessage.addListener(
-      (msg: ExtensionMessage) => {
-        extension.checkPermissions().then((permissions) => {
-          extension.log(`background:action:${msg.action}`);
-          if (msg.action === 'enableFirefoxContainers') {
-            if (permissions.containers) {
-              listenConsole();
-            }
-          } else if (msg.action === 'disableFirefoxContainers') {
-            if (permissions.containers) {
-              // eslint-disable-next-line vue/max-len
-              extension.config.browser.webRequest.onBeforeRequest.removeListener(
-                createFirefoxContainer,
-              );
-            }
-          } else if (msg.action === 'expireFirefoxContainer') {
+// aws keyword in the address bar, unsupported in safari
+if (extension.config.browser.omnibox) {
+  listenOmnibox();
+}
+
+// open console links in another profile
+if (extension.config.browser.contextMenus) {
+  listenContextMenus();
+}
+
+// command palette in the aws console
+extension.config.browser.runtime.onMessage.addListener((msg: ExtensionMessage, sender) => {
+  if (msg.action === 'launchProfile') {
+    launchFromPalette(msg, sender.tab?.id).catch(launchFailed);
+  }
+});
+
+// warn before console sessions expire
+scheduleSessionAlarms();
+extension.config.browser.storage.local.onChanged.addListener((changes) => {
+  if (`${extension.config.name}-sessions` in changes) {
+    scheduleSessionAlarms();
+  }
+});
+extension.config.browser.alarms.onAlarm.addListener(async (alarm) => {
+  // notifications are unsupported in safari
+  if (!alarm.name.startsWith('session:') || !extension.config.browser.notifications) { return; }
+  const profileId = alarm.name.substring('session:'.length);
+  const data = await loadData();
+  const user = extension.findUserByProfileId(profileId, data.users);
+  const appProfile = extension.findAppProfileById(
+    profileId,
+    extension.customizeProfiles(user, data.appProfiles),
+  );
+  if (!appProfile) { return; }
+  const sessions = await extension.loadSessions();
+  const expiresAt = extension.sessionExpiresAt(sessions, user, appProfile);
+  if (expiresAt === null) { return; }
+  extension.config.browser.notifications.create(alarm.name, {
+    type: 'basic',
+    iconUrl: extension.config.browser.runtime.getURL(`icons/${data.settings.iconColor}/128.png`),
+    title: `AWS session expires in ${extension.formatRemaining(expiresAt - Date.now())}`,
+    message: `${extension.sessionLabelSso(appProfile, user)}\nClick to sign in again.`,
+  });
+});
+extension.config.browser.notifications?.onClicked.addListener(async (notificationId) => {
+  if (!notificationId.startsWith('session:')) { return; }
+  extension.config.browser.notifications.clear(notificationId);
+  const data = await loadData();
+  await launchProfile(data, notificationId.substring('session:'.length)).catch(launchFailed);
+});
+
+if (extension.platform === 'firefox') {
+  // setup listeners on message / settings change
+  extension.config.browser.runtime.onMessage.addListener(
+    (msg: ExtensionMessage) => {
+      extension.checkPermissions().then((permissions) => {
+        extension.log(`background:action:${msg.action}`);
+        if (msg.action === 'enableFirefoxContainers') {
+          if (permissions.containers) {
+            listenConsole();
+          }
+        } else if (msg.action === 'disableFirefoxContainers') {
+          if (permissions.containers) {
+            // eslint-disable-next-line vue/max-len
+            extension.config.browser.webRequest.onBeforeRequest.removeListener(
+              createFirefoxContainer,
+            );
+          }
+        } else if (msg.action === 'expireFirefoxContainer') {
+          loadData().then((data) => {
             // remove container
-            setTimeout(() => { 
+            setTimeout(() => {
               extension.log('background:expireFirefoxContainer');
               extension.config.browser.contextualIdentities.remove(msg.cookieStoreId!);
             }, (data.settings.firefoxExpireMinsContainer * 60 * 1000));
-          }
-        });
-      },
-    );
-
-    // startup listeners
-    extension.checkPermissions().then((permissions) => {
-      // permissions
-      if (permissions.containers && data.settings.firefoxContainers) {
-        listenConsole();
-      }
-    });
-  }
-});
+          });
+        }
+      });
+    },
+  );
+
+  // startup listeners
+  Promise.all([extension.checkPermissions(), loadData()]).then(([permissions, data]) => {
+    // permissions
+    if (permissions.containers && data.settings.firefoxContainers) {
+      listenConsole();
+    }
+  });
+}
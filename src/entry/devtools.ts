@@ -1,9 +1,23 @@
 import { createApp } from 'vue';
+import Button from 'primevue/button';
+import InputText from 'primevue/inputtext';
+import PrimeVue from 'primevue/config';
+import Tooltip from 'primevue/tooltip';
 import extension from '../extension';
+import DiagnosticLog from '../components/DiagnosticLog.vue';
 import Devtools from '../views/devtools.vue';
+import 'primevue/resources/themes/lara-light-indigo/theme.css';
+import 'primevue/resources/primevue.min.css';
+import 'primeicons/primeicons.css';
 
 const app = createApp(Devtools);
+app.use(PrimeVue);
 app.config.globalProperties.$ext = extension;
+app.component('InputText', InputText);
+app.component('PrimeButton', Button);
+app.directive('tooltip', Tooltip);
+// Custom components
+app.component('DiagnosticLog', DiagnosticLog);
 app.mount('#app');
 
 extension.config.browser.devtools.panels.create(extension.config.name, '', 'src/devtools.html');
@@ -26,11 +26,18 @@ import Tooltip from 'primevue/tooltip';
 import JsonEditorVue from 'json-editor-vue3';
 import extension from '../extension';
 import SetupSteps from '../components/SetupSteps.vue';
+import SyncStatus from '../components/SyncStatus.vue';
 import ProfileTable from '../components/ProfileTable.vue';
+import HighlightText from '../components/HighlightText.vue';
 import Options from '../views/options.vue';
 import LoginLinks from '../components/LoginLinks.vue';
 import AddAwsAccounts from '../components/AddAwsAccounts.vue';
+import AwsCliConfig from '../components/AwsCliConfig.vue';
+import BackupRestore from '../components/BackupRestore.vue';
+import DiagnosticLog from '../components/DiagnosticLog.vue';
 import IamRoles from '../components/IamRoles.vue';
+import ProfileRules from '../components/ProfileRules.vue';
+import SharedBaseline from '../components/SharedBaseline.vue';
 import 'primevue/resources/themes/lara-light-indigo/theme.css';
 import 'primevue/resources/primevue.min.css';
 import 'primeicons/primeicons.css';
@@ -64,8 +71,15 @@ app.component('ToggleButton', ToggleButton);
 app.directive('tooltip', Tooltip);
 // Custom components
 app.component('AddAwsAccounts', AddAwsAccounts);
+app.component('AwsCliConfig', AwsCliConfig);
+app.component('BackupRestore', BackupRestore);
+app.component('DiagnosticLog', DiagnosticLog);
+app.component('HighlightText', HighlightText);
 app.component('IamRoles', IamRoles);
 app.component('LoginLinks', LoginLinks);
+app.component('ProfileRules', ProfileRules);
 app.component('ProfileTable', ProfileTable);
 app.component('SetupSteps', SetupSteps);
+app.component('SyncStatus', SyncStatus);
+app.component('SharedBaseline', SharedBaseline);
 app.mount('#app');
@@ -12,6 +12,7 @@ import DataTable from 'primevue/datatable';
 import Dialog from 'primevue/dialog';
 import Divider from 'primevue/divider';
 import InputText from 'primevue/inputtext';
+import InputNumber from 'primevue/inputnumber';
 import Listbox from 'primevue/listbox';
 import PrimeVue from 'primevue/config';
 import Panel from 'primevue/panel';
@@ -24,7 +25,10 @@ import Toolbar from 'primevue/toolbar';
 import Tooltip from 'primevue/tooltip';
 import extension from '../extension';
 import SetupSteps from '../components/SetupSteps.vue';
+import SyncStatus from '../components/SyncStatus.vue';
 import ProfileTable from '../components/ProfileTable.vue';
+import SyncChanges from '../components/SyncChanges.vue';
+import HighlightText from '../components/HighlightText.vue';
 import Popup from '../views/popup.vue';
 import LoginLinks from '../components/LoginLinks.vue';
 import IamRoles from '../components/IamRoles.vue';
@@ -40,6 +44,7 @@ app.config.globalProperties.$ext = extension;
 app.component('ColorPicker', ColorPicker);
 app.component('DataTable', DataTable);
 app.component('InputText', InputText);
+app.component('InputNumber', InputNumber);
 app.component('PAccordion', Accordion);
 app.component('PAccordionTab', AccordionTab);
 app.component('PBadge', Badge);
@@ -58,8 +63,11 @@ app.component('TabView', TabView);
 app.component('ToggleButton', ToggleButton);
 app.directive('tooltip', Tooltip);
 // Custom components
+app.component('HighlightText', HighlightText);
 app.component('IamRoles', IamRoles);
 app.component('LoginLinks', LoginLinks);
 app.component('ProfileTable', ProfileTable);
 app.component('SetupSteps', SetupSteps);
+app.component('SyncStatus', SyncStatus);
+app.component('SyncChanges', SyncChanges);
 app.mount('#app');
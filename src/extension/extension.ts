@@ -6,16 +6,176 @@ import {
   type ExtensionData,
   type ExtensionSettings,
   type IamRole,
+  type LogEntry,
+  type LogExport,
+  type LogLevel,
+  AwsPartition,
+  Baseline,
   CustomData,
+  EncryptedConfig,
+  ExtensionBackup,
   ExtensionPermissions,
   UserConfig,
   ContextualIdentity,
+  AwsConfigRoles,
+  Bookmark,
+  PartitionHosts,
+  ProfileArchive,
+  ProfileLaunch,
+  ProfileRule,
+  ProfileTarget,
+  SessionData,
+  SyncChange,
+  SyncReport,
+  SyncStatus,
 } from '../types';
+import migrations, { SCHEMA_VERSION } from './migrations';
+import { validateUserConfig } from '../utils/config';
+import { decrypt, isEncrypted } from '../utils/crypto';
+import {
+  logContext, logEntry, redact, redactText,
+} from '../utils/logger';
+
+// launches kept in the recent profiles history
+const HISTORY_SIZE = 200;
+// recent launches outrank frequent ones, a launch loses half its weight every 3 days
+const HISTORY_HALF_LIFE_MS = 3 * 24 * 60 * 60 * 1000;
+// aws defaults for permission sets & the access portal
+const SESSION_HOURS = 1;
+const PORTAL_SESSION_HOURS = 8;
+// notify before a console session expires
+const SESSION_WARNING_MS = 5 * 60 * 1000;
+// storage.sync quotas, the same in chrome & firefox
+const SYNC_QUOTA_BYTES = 102400;
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+const SYNC_MAX_ITEMS = 512;
+// a sync without progress for this long was interrupted, e.g. the portal tab closed
+const SYNC_STALE_MS = 2 * 60 * 1000;
+// entries kept in the diagnostic log ring buffer
+const LOG_SIZE = 500;
+// batches debug & info entries, warnings & errors are written right away
+const LOG_FLUSH_MS = 1000;
+// full backups of every user, bump the version when the layout changes
+const BACKUP_FORMAT = 'aws-sso-extender-backup';
+const BACKUP_VERSION = 1;
+// access portal, console, signin & portal api hosts per aws partition
+const PARTITIONS: Record<AwsPartition, PartitionHosts> = {
+  aws: {
+    portal: 'https://{{directoryId}}.awsapps.com/start',
+    console: 'console.aws.amazon.com',
+    signin: 'signin.aws.amazon.com',
+    api: 'amazonaws.com',
+  },
+  'aws-us-gov': {
+    portal: 'https://start.us-gov-home.awsapps.com/directory/{{directoryId}}',
+    console: 'console.amazonaws-us-gov.com',
+    signin: 'signin.amazonaws-us-gov.com',
+    api: 'amazonaws.com',
+  },
+  'aws-cn': {
+    portal: 'https://{{directoryId}}.awsapps.cn/start',
+    console: 'console.amazonaws.cn',
+    signin: 'signin.amazonaws.cn',
+    api: 'amazonaws.com.cn',
+  },
+};
 
 function encodeUriPlusParens(str) {
   return encodeURIComponent(str).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16)}`);
 }
 
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function repairRecord<T extends object>(record: Record<string, unknown>, defaults: object): T {
+  // fill missing keys & replace mistyped objects or lists, nested too
+  Object.entries(defaults).forEach(([key, value]) => {
+    const current = record[key];
+    if (!Object.prototype.hasOwnProperty.call(record, key)
+      || (isPlainObject(value) && !isPlainObject(current))
+      || (Array.isArray(value) && !Array.isArray(current))) {
+      // eslint-disable-next-line no-param-reassign
+      record[key] = structuredClone(value);
+    } else if (isPlainObject(value) && isPlainObject(current)) {
+      repairRecord(current, value);
+    }
+  });
+  return record as T;
+}
+
+function mergeCustom(base: CustomData | undefined, own: CustomData | undefined): CustomData | undefined {
+  // personal values win unless empty, tags add up & protection can't be lifted
+  if (!base || !own) {
+    return own || base;
+  }
+  const merged = { ...base, ...own };
+  ['label', 'color', 'destination', 'region', 'sessionHours'].forEach((key) => {
+    if ([null, undefined, ''].includes(own[key])) {
+      merged[key] = base[key];
+    }
+  });
+  merged.tags = [...new Set([...(base.tags || []), ...(own.tags || [])])];
+  merged.protected = base.protected === true || own.protected === true;
+  return merged;
+}
+
+function syncItemBytes(key: string, value: unknown): number {
+  // sync quotas count the key plus the json of the value
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+function isChunkOf(key: string, itemKey: string): boolean {
+  return itemKey === key || itemKey.startsWith(`${key}-chunk-`);
+}
+
+function chunkValue(key: string, value: string): Record<string, unknown> {
+  if (syncItemBytes(key, value) <= SYNC_QUOTA_BYTES_PER_ITEM) {
+    return { [key]: value };
+  }
+  // large values are split across chunk keys, the key itself counts the chunks
+  const items: Record<string, unknown> = {};
+  let start = 0;
+  let chunks = 0;
+  while (start < value.length) {
+    const chunkKey = `${key}-chunk-${chunks}`;
+    let size = value.length - start;
+    // multibyte & escaped characters vary in size, halve until the chunk fits
+    while (syncItemBytes(chunkKey, value.slice(start, start + size)) > SYNC_QUOTA_BYTES_PER_ITEM) {
+      size = Math.ceil(size / 2);
+    }
+    items[chunkKey] = value.slice(start, start + size);
+    start += size;
+    chunks += 1;
+  }
+  items[key] = { chunks };
+  return items;
+}
+
+function diffAppProfiles(before: AppData[], after: AppData[]): Pick<SyncReport, 'added' | 'removed'> {
+  const accountIds = (aps: AppData[]) => new Set(aps.map((ap) => ap.searchMetadata?.AccountId).filter(Boolean));
+  const changes = (from: AppData[], to: AppData[]): SyncChange[] => {
+    const ids = to.map((ap) => ap.profile.id);
+    const accounts = accountIds(to);
+    return from.filter((ap) => !ids.includes(ap.profile.id)).map((ap) => {
+      const accountId = ap.searchMetadata?.AccountId;
+      let kind: SyncChange['kind'] = 'app';
+      if (ap.applicationName === 'AWS Account') {
+        kind = accounts.has(accountId) ? 'role' : 'account';
+      }
+      return {
+        profileId: ap.profile.id,
+        profileName: ap.profile.name,
+        appName: ap.name,
+        kind,
+        accountId,
+        accountName: ap.searchMetadata?.AccountName,
+      };
+    });
+  };
+  return { added: changes(after, before), removed: changes(before, after) };
+}
+
 class Extension {
   config: ExtensionConfig;
 
@@ -27,8 +187,18 @@ class Extension {
 
   apps: AppData[];
 
+  baseline: Baseline | null;
+
   loaded: boolean;
 
+  logContext = logContext();
+
+  logBuffer: LogEntry[] = [];
+
+  logFlush: ReturnType<typeof setTimeout> | null = null;
+
+  logWrite: Promise<void> = Promise.resolve();
+
   defaultCustom = {
     accounts: {},
     accountsOverride: false,
@@ -36,12 +206,14 @@ class Extension {
     sessionLabelSso: '{{user}}/{{profile}} @ {{account}}',
     sessionLabelIam: '{{user}}/{{role}} @ {{account}} via {{profile}}',
     colorDefault: '222f3e',
+    cliProfileName: '{{accountName}}-{{profile}}',
     colorFooter: true, // confusing if these are disabled
     colorHeader: true, // after granting permissions
     labelFooter: true,
     labelHeader: true,
     labelIcon: false,
     profiles: {},
+    rules: [],
     hotkeys: {
       openProfile1: '',
       openProfile2: '',
@@ -68,31 +240,101 @@ class Extension {
       sortCustom: false,
       sortApp: 'desc',
       sortProfile: false,
+      groupTag: null,
     },
   };
 
+  defaultSyncStatus: SyncStatus = {
+    state: 'idle',
+    portalUrl: '',
+    startedAt: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    error: null,
+    progress: { apps: 0, appsTotal: 0, profiles: 0 },
+  };
+
   constructor(config: ExtensionConfig) {
     this.config = config;
     this.platform = this.checkPlatform();
-    this.consoleUrlRegex = /^https:\/\/(((?<region>\w{2}-\w+-\d{1,2})|support|s3|health)\.console\.aws\.amazon|console\.amazonaws-us-gov)\.com\/(?<path>.*)?$/;
+    this.consoleUrlRegex = /^https:\/\/(((?<region>\w{2}(-gov)?-\w+-\d{1,2})|support|s3|health)\.)?console\.(aws\.amazon\.com|amazonaws-us-gov\.com|amazonaws\.cn)\/(?<path>.*)?$/;
     this.ssoUrl = '';
     this.loaded = false;
     this.apps = [];
-    this.log(this);
+    this.baseline = null;
+    this.log(`init:${this.logContext}`, 'debug', this);
   }
 
-  log(v: unknown): void {
-    if (this.config.debug) {
-      if (typeof v !== 'string') {
-        // eslint-disable-next-line no-console
-        console.log(v);
-      } else {
-        // eslint-disable-next-line no-console
-        console.log(`${this.config.name}:${v}`);
-      }
+  log(v: unknown, level: LogLevel = 'debug', data?: unknown): void {
+    if (this.config.debug || level === 'warn' || level === 'error') {
+      // the console gets the same redacted view as the stored entry
+      const args = data === undefined ? [] : [redact(data)];
+      // eslint-disable-next-line no-console
+      console[level === 'debug' ? 'log' : level](typeof v === 'string' ? `${this.config.name}:${redactText(v)}` : redact(v), ...args);
+    }
+    this.logBuffer.push(logEntry(v, level, this.logContext, data));
+    if (level === 'warn' || level === 'error') {
+      this.flushLog();
+    } else if (this.logFlush === null) {
+      this.logFlush = setTimeout(() => { this.flushLog(); }, LOG_FLUSH_MS);
     }
   }
 
+  flushLog(): Promise<void> {
+    if (this.logFlush !== null) {
+      clearTimeout(this.logFlush);
+      this.logFlush = null;
+    }
+    const entries = this.logBuffer.splice(0);
+    if (entries.length === 0) {
+      return this.logWrite;
+    }
+    // writes queue up, logging here would loop
+    this.logWrite = this.logWrite.then(async () => {
+      const logKey = `${this.config.name}-log`;
+      const stored = await this.readLog();
+      await this.config.browser.storage.local.set({
+        [logKey]: JSON.stringify({ entries: [...stored, ...entries].slice(-LOG_SIZE) }),
+      });
+    }).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error(`${this.config.name}:flushLog`, err);
+    });
+    return this.logWrite;
+  }
+
+  async readLog(): Promise<LogEntry[]> {
+    const logKey = `${this.config.name}-log`;
+    const logData = await this.config.browser.storage.local.get(logKey);
+    try {
+      const { entries } = JSON.parse(logData[logKey]);
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async loadLog(): Promise<LogEntry[]> {
+    await this.flushLog();
+    return this.readLog();
+  }
+
+  async clearLog(): Promise<void> {
+    this.logBuffer = [];
+    await this.logWrite;
+    await this.config.browser.storage.local.remove(`${this.config.name}-log`);
+  }
+
+  async exportLog(): Promise<LogExport> {
+    return {
+      extensionVersion: `${this.config.version}-${this.config.build}`,
+      platform: this.platform,
+      userAgent: navigator.userAgent,
+      exportedAt: Date.now(),
+      entries: await this.loadLog(),
+    };
+  }
+
   checkPlatform() {
     this.log(`checkPlatform:${navigator.userAgent}`);
     if (navigator.userAgent.indexOf('Firefox') !== -1) {
@@ -124,9 +366,10 @@ class Extension {
     }
     if (accountName) {
       let accountLabel = accountName;
-      if (accounts[account] !== undefined) {
-        if (accounts[account].label) {
-          accountLabel = accounts[account].label;
+      const custom = mergeCustom(this.baseline?.accounts[account], accounts?.[account]);
+      if (custom !== undefined) {
+        if (custom.label) {
+          accountLabel = custom.label;
         }
       }
       label = label.replaceAll('{{accountName}}', accountLabel);
@@ -134,6 +377,42 @@ class Extension {
     return label;
   }
 
+  partitionHosts(partition?: AwsPartition | null): PartitionHosts {
+    // users synced before the partition was stored are commercial
+    return PARTITIONS[partition || 'aws'] || PARTITIONS.aws;
+  }
+
+  partitionFromUrl(url: string): AwsPartition {
+    const { hostname } = new URL(url);
+    if (hostname.endsWith('.amazonaws-us-gov.com') || hostname.endsWith('.us-gov-home.awsapps.com')) {
+      return 'aws-us-gov';
+    }
+    return hostname.endsWith('.cn') ? 'aws-cn' : 'aws';
+  }
+
+  portalUrl(directoryId: string, partition?: AwsPartition | null): string {
+    return this.partitionHosts(partition).portal.replace('{{directoryId}}', directoryId);
+  }
+
+  parsePortalUrl(url: string): { directoryId: string, partition: AwsPartition } | null {
+    const match = /^https:\/\/((?<directoryId>[\w-]{1,64})\.awsapps\.(com|cn)\/start|start\.([\w-]+\.)?us-gov-home\.awsapps\.com\/directory\/(?<govDirectoryId>[\w-]{1,64}))/.exec(url);
+    if (!match?.groups) {
+      return null;
+    }
+    return {
+      directoryId: match.groups.directoryId || match.groups.govDirectoryId,
+      partition: this.partitionFromUrl(url),
+    };
+  }
+
+  async containsAnyPartition(origins: string[]): Promise<boolean> {
+    // one origin per partition, e.g. commercial only users never grant gov & china hosts
+    const granted = await Promise.all(origins.map(
+      (origin) => this.config.browser.permissions.contains({ origins: [origin] }),
+    ));
+    return granted.includes(true);
+  }
+
   async checkPermissions(): Promise<ExtensionPermissions> {
     this.log('checkPermissions');
     const history = this.platform === 'safari'
@@ -141,15 +420,9 @@ class Extension {
       : this.config.browser.permissions.contains({
         permissions: ['history'],
       });
-    const console = this.config.browser.permissions.contains({
-      origins: [...this.config.permissions.console],
-    });
-    const signin = this.config.browser.permissions.contains({
-      origins: [...this.config.permissions.signin],
-    });
-    const sso = this.config.browser.permissions.contains({
-      origins: [...this.config.permissions.sso],
-    });
+    const console = this.containsAnyPartition(this.config.permissions.console);
+    const signin = this.containsAnyPartition(this.config.permissions.signin);
+    const sso = this.containsAnyPartition(this.config.permissions.sso);
     const containers = this.platform === 'firefox'
       ? this.config.browser.permissions.contains({
         origins: [...this.config.permissions.containers],
@@ -182,10 +455,9 @@ class Extension {
   async loadIamLogins(): Promise<IamRole[]> {
     const loginsKey = `${this.config.name}-iam-logins`;
     const loginsData = await this.config.browser.storage.local.get(loginsKey);
-    const logins = loginsData[loginsKey] === undefined
-      ? {}
-      : JSON.parse(loginsData[loginsKey]);
-    return logins;
+    const logins = await this.parseRecord(loginsKey, loginsData[loginsKey], this.config.browser.storage.local);
+    // keyed by profile id
+    return (logins || {}) as unknown as IamRole[];
   }
 
   async removeIamLogin(profileId: string): Promise<void> {
@@ -200,12 +472,57 @@ class Extension {
     );
   }
 
-  queueIamLogin(role: IamRole): Promise<void> {
+  async advanceIamLogin(login: IamRole): Promise<void> {
+    const [next, ...chain] = login.chain || [];
+    if (!next) {
+      return this.removeIamLogin(login.profileId);
+    }
+    this.log(`advanceIamLogin:${next.accountId}:${next.roleName}`);
+    // the next hop switches from the role this one lands in
+    const logins = await this.loadIamLogins();
+    logins[login.profileId] = { ...next, chain };
+    return this.saveData(
+      `${this.config.name}-iam-logins`,
+      logins,
+      this.config.browser.storage.local,
+    );
+  }
+
+  iamRoleChain(role: IamRole, user: UserData): IamRole[] {
+    // hops from the sso profile, e.g. hub role > spoke role
+    const roles = [
+      ...(user.custom.profiles[role.profileId]?.iamRoles || []),
+      // baseline hops, personal roles are found first
+      // eslint-disable-next-line no-unused-vars
+      ...(this.baseline?.iamRoles || []).map(({ ssoAccountId, ssoRoleName, ...r }) => ({
+        ...r, profileId: role.profileId, baseline: true,
+      })),
+    ];
+    const chain = [role];
+    let source = role.sourceRole;
+    while (source) {
+      const { accountId, roleName } = source;
+      const parent = roles.find((r) => r.accountId === accountId && r.roleName === roleName);
+      // missing or circular source roles end the chain
+      if (!parent || chain.some((r) => r.accountId === accountId && r.roleName === roleName)) {
+        break;
+      }
+      chain.unshift(parent);
+      source = parent.sourceRole;
+    }
+    return chain;
+  }
+
+  queueIamLogin(role: IamRole, user: UserData): Promise<void> {
     this.log('queueIamLogin');
+    // only the last hop keeps the destination
+    const [first, ...chain] = this.iamRoleChain(role, user)
+      .map((hop) => (hop === role ? hop : { ...hop, destination: null }));
     return this.loadIamLogins().then((logins) => {
       const iamLogins = logins;
-      iamLogins[role.profileId] = role;
-      this.saveData(
+      iamLogins[role.profileId] = { ...first, chain };
+      // stored before the caller opens the console
+      return this.saveData(
         `${this.config.name}-iam-logins`,
         iamLogins,
         this.config.browser.storage.local,
@@ -213,6 +530,117 @@ class Extension {
     });
   }
 
+  async loadHistory(): Promise<ProfileLaunch[]> {
+    const historyKey = `${this.config.name}-history`;
+    const historyData = await this.config.browser.storage.local.get(historyKey);
+    return historyData[historyKey] === undefined
+      ? []
+      : JSON.parse(historyData[historyKey]).launches;
+  }
+
+  async recordLaunch(profileId: string, iamRole: IamRole | null = null): Promise<void> {
+    this.log(`recordLaunch:${profileId}`);
+    const launches = await this.loadHistory();
+    launches.unshift({
+      profileId,
+      accountId: iamRole?.accountId,
+      roleName: iamRole?.roleName,
+      launchedAt: Date.now(),
+    });
+    await this.saveData(
+      `${this.config.name}-history`,
+      { launches: launches.slice(0, HISTORY_SIZE) },
+      this.config.browser.storage.local,
+    );
+  }
+
+  async loadSessions(): Promise<SessionData> {
+    const sessionsKey = `${this.config.name}-sessions`;
+    const sessionsData = await this.config.browser.storage.local.get(sessionsKey);
+    return sessionsData[sessionsKey] === undefined
+      ? { portals: {}, consoles: {} }
+      : JSON.parse(sessionsData[sessionsKey]);
+  }
+
+  saveSessions(sessions: SessionData): Promise<void> {
+    return this.saveData(
+      `${this.config.name}-sessions`,
+      { portals: sessions.portals, consoles: sessions.consoles },
+      this.config.browser.storage.local,
+    );
+  }
+
+  async startPortalSession(userId: string, signedIn: boolean): Promise<void> {
+    this.log(`startPortalSession:${userId}`);
+    const sessions = await this.loadSessions();
+    const expiresAt = (sessions.portals[userId] || 0) + PORTAL_SESSION_HOURS * 60 * 60 * 1000;
+    // syncs repeat on every portal visit, only a sign in starts a new session
+    if (signedIn || expiresAt < Date.now()) {
+      sessions.portals[userId] = Date.now();
+      await this.saveSessions(sessions);
+    }
+  }
+
+  async startConsoleSession(user: UserData, profile: AppData): Promise<void> {
+    const sessions = await this.loadSessions();
+    if (this.sessionExpiresAt(sessions, user, profile) === null) {
+      this.log(`startConsoleSession:${profile.profile.id}`);
+      sessions.consoles[profile.profile.id] = Date.now();
+      await this.saveSessions(sessions);
+    }
+  }
+
+  async endConsoleSession(profileId: string): Promise<void> {
+    const sessions = await this.loadSessions();
+    if (profileId in sessions.consoles) {
+      delete sessions.consoles[profileId];
+      await this.saveSessions(sessions);
+    }
+  }
+
+  sessionHours(user: UserData, profile: AppData): number {
+    // profile, permission set, aws default
+    return profile.profile.custom?.sessionHours
+      || user.custom.sessionHours?.[profile.profile.name]
+      || SESSION_HOURS;
+  }
+
+  sessionExpiresAt(sessions: SessionData, user: UserData, profile: AppData): number | null {
+    const startedAt = sessions.consoles[profile.profile.id];
+    if (startedAt === undefined) { return null; }
+    const expiresAt = startedAt + this.sessionHours(user, profile) * 60 * 60 * 1000;
+    return expiresAt > Date.now() ? expiresAt : null;
+  }
+
+  portalExpiresAt(sessions: SessionData, user: UserData): number | null {
+    const startedAt = sessions.portals[user.userId];
+    if (startedAt === undefined) { return null; }
+    const expiresAt = startedAt + PORTAL_SESSION_HOURS * 60 * 60 * 1000;
+    return expiresAt > Date.now() ? expiresAt : null;
+  }
+
+  sessionWarningAt(expiresAt: number): number {
+    return Math.max(Date.now(), expiresAt - SESSION_WARNING_MS);
+  }
+
+  formatRemaining(ms: number): string {
+    const mins = Math.max(0, Math.ceil(ms / 60000));
+    return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}m` : `${mins}m`;
+  }
+
+  rankRecentProfiles(launches: ProfileLaunch[], appProfiles: AppData[]): AppData[] {
+    const now = Date.now();
+    const scores: Record<string, number> = {};
+    // sso & iam role launches both count towards their sso profile
+    launches.forEach((launch) => {
+      const weight = 0.5 ** ((now - launch.launchedAt) / HISTORY_HALF_LIFE_MS);
+      scores[launch.profileId] = (scores[launch.profileId] || 0) + weight;
+    });
+    return appProfiles
+      .filter((ap) => ap.profile.id in scores)
+      .sort((a, b) => scores[b.profile.id] - scores[a.profile.id]);
+  }
+
   async loadUser(
     userId: string,
     enableSync: ExtensionSettings['enableSync'],
@@ -221,21 +649,12 @@ class Extension {
       ? this.config.browser.storage.sync
       : this.config.browser.storage.local;
     const userKey = `${this.config.name}-user-${userId}`;
-    const userData = await storage.get(userKey);
-    const user = userData[userKey] === undefined ? {} : JSON.parse(userData[userKey]);
+    const user = await this.parseRecord(userKey, await this.loadRaw(userKey, storage), storage) || {};
     const customKey = `${this.config.name}-custom-${userId}`;
-    const customData = await storage.get(customKey);
-    // eslint-disable-next-line vue/max-len
-    const custom = customData[customKey] === undefined
-      ? this.defaultCustom
-      : JSON.parse(customData[customKey]);
-    Object.keys(this.defaultCustom).forEach((key) => {
-      if (!Object.prototype.hasOwnProperty.call(custom, key)) {
-        custom[key] = this.defaultCustom[key];
-      }
-    });
-    user.custom = custom;
-    return user as UserData;
+    const custom = await this.parseRecord(customKey, await this.loadRaw(customKey, storage), storage) || {};
+    // useful when adding new customizations between versions
+    user.custom = repairRecord<UserData['custom']>(custom, this.defaultCustom);
+    return repairRecord<UserData>(user, { appProfileIds: [] });
   }
 
   async loadUsers(
@@ -244,10 +663,9 @@ class Extension {
     const users: Array<Promise<UserData>> = [];
     const usersKey = `${this.config.name}-users`;
     // keep users list in sync
-    const usersData = await this.config.browser.storage.sync.get(usersKey);
-    const userIds = usersData[usersKey] === undefined
-      ? []
-      : JSON.parse(usersData[usersKey]).users;
+    const usersData = await this.loadRaw(usersKey, this.config.browser.storage.sync);
+    const userList = await this.parseRecord(usersKey, usersData, this.config.browser.storage.sync);
+    const userIds = userList && Array.isArray(userList.users) ? userList.users : [];
     // enableSync determines where user data (customizations) are stored
     userIds.forEach((userId: string) => {
       users.push(this.loadUser(userId, enableSync));
@@ -268,20 +686,11 @@ class Extension {
   async loadSettings(): Promise<ExtensionSettings> {
     this.log('loadSettings');
     const setKey = `${this.config.name}-settings`;
-    const setData = await this.config.browser.storage.sync.get(setKey);
-    // eslint-disable-next-line vue/max-len
-    const settings = setData[setKey] === undefined
-      ? this.defaultSettings
-      : JSON.parse(setData[setKey]);
+    const setData = await this.loadRaw(setKey, this.config.browser.storage.sync);
+    const settings = await this.parseRecord(setKey, setData, this.config.browser.storage.sync) || {};
     // replace missing settings with default settings
     // useful when adding new settings between versions
-    Object.keys(this.defaultSettings).forEach((key) => {
-      // no key or undefined
-      if (!Object.prototype.hasOwnProperty.call(settings, key)) {
-        settings[key] = this.defaultSettings[key];
-      }
-    });
-    return settings as ExtensionSettings;
+    return repairRecord<ExtensionSettings>(settings, this.defaultSettings);
   }
 
   getDefaultUser(data: ExtensionData): UserData {
@@ -295,23 +704,23 @@ class Extension {
 
   async loadData(): Promise<ExtensionData> {
     this.log('loadData');
+    await this.loadBaseline();
     const iamLogins = await this.loadIamLogins();
     const settings = await this.loadSettings();
     let users = await this.loadUsers(settings.enableSync);
     users = users.sort((a, b) => (a.updatedAt > b.updatedAt ? -1 : 1));
     const appProfileIds = users.map((u) => u.appProfileIds);
     const uniqProfileIds = [...new Set(appProfileIds.flat(1))];
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const appProfiles: Array<Promise<Record<string, any>>> = [];
-    // load app profiles
+    const appProfiles: Array<Promise<Record<string, unknown> | null>> = [];
+    // load app profiles, skip missing & quarantined
     uniqProfileIds.forEach((apId) => {
-      appProfiles.push(this.config.browser.storage.local.get(apId));
+      appProfiles.push(this.config.browser.storage.local.get(apId).then(
+        (ap) => this.parseRecord(apId, ap[apId], this.config.browser.storage.local),
+      ));
     });
     const data = await Promise.all(appProfiles).then((aps) => ({
       updatedAt: users.length > 0 ? users[0].updatedAt : 0,
-      appProfiles: aps
-        .filter((ap) => ap[Object.keys(ap)[0]] !== undefined)
-        .map((ap) => JSON.parse(ap[Object.keys(ap)[0]])),
+      appProfiles: aps.filter((ap): ap is Record<string, unknown> & AppData => isPlainObject(ap?.profile)),
       settings,
       users,
       iamLogins,
@@ -320,26 +729,80 @@ class Extension {
     return data;
   }
 
-  async createProfileUrl(user: UserData, appProfile: AppData): Promise<string> {
-    console.log('createProfileUrl');
-    const ssoDirUrl = `https://${user.managedActiveDirectoryId}.awsapps.com/start/#/saml`;
+  async createProfileUrl(
+    user: UserData,
+    appProfile: AppData,
+    bookmarkUrl?: string | null,
+  ): Promise<string> {
+    this.log('createProfileUrl');
+    const portalUrl = this.portalUrl(user.managedActiveDirectoryId, user.partition);
+    const ssoDirUrl = `${portalUrl}/#/saml`;
     const appProfileName = encodeUriPlusParens(appProfile.name);
 
     if (appProfile.profile.name === 'Default') {
       return `${ssoDirUrl}/default/${appProfileName}/${appProfile.id}`;
     }
 
-    let consoleUrl = `https://${user.managedActiveDirectoryId}.awsapps.com/start/#/console?account_id=${appProfile.searchMetadata?.AccountId}&role_name=${appProfile.profile.name}`;
+    let consoleUrl = `${portalUrl}/#/console?account_id=${appProfile.searchMetadata?.AccountId}&role_name=${appProfile.profile.name}`;
 
     const currentTab = (await this.config.browser.tabs.query({currentWindow: true, active: true}))[0];
-    // if the current tab in the console, specify the destination
-    if (currentTab.url?.match(this.consoleUrlRegex)) {
-      consoleUrl = `${consoleUrl}&destination=${encodeURIComponent(currentTab.url)}`;
+    // if opening a bookmark or the current tab in the console, specify the destination
+    // otherwise fallback to the profile or account default destination
+    let destination = bookmarkUrl || null;
+    destination ??= currentTab.url?.match(this.consoleUrlRegex)
+      ? currentTab.url
+      : this.consoleDestination(
+        user.partition,
+        appProfile.profile.custom,
+        this.mergedAccounts(user)[appProfile.searchMetadata?.AccountId!],
+      );
+    if (destination) {
+      consoleUrl = `${consoleUrl}&destination=${encodeURIComponent(destination)}`;
     }
 
     return consoleUrl;
   }
 
+  consoleDestination(
+    partition: AwsPartition | null | undefined,
+    ...customs: Array<CustomData | undefined>
+  ): string | null {
+    // first custom setting wins, e.g. profile > account
+    const destination = customs.find((c) => c?.destination)?.destination;
+    const region = customs.find((c) => c?.region)?.region;
+    if (!destination && !region) {
+      return null;
+    }
+    const consoleHost = region
+      ? `https://${region}.${this.partitionHosts(partition).console}`
+      : `https://${this.partitionHosts(partition).console}`;
+    let url: URL;
+    try {
+      // destinations can be a full console url or a path, e.g. cloudwatch/home
+      url = new URL(destination || '/console/home', consoleHost);
+    } catch {
+      // saved before destinations were validated, or imported
+      this.log(`consoleDestination:invalid:${destination}`, 'warn');
+      url = new URL('/console/home', consoleHost);
+    }
+    if (region) {
+      url.searchParams.set('region', region);
+    }
+    return url.href;
+  }
+
+  validDestination(destination: string | null | undefined): boolean {
+    if (!destination) {
+      return true;
+    }
+    try {
+      // paths resolve against the console, full urls must be a console page
+      return this.consoleUrlRegex.test(new URL(destination, `https://${this.partitionHosts('aws').console}`).href);
+    } catch {
+      return false;
+    }
+  }
+
   parseAppProfiles(): AppData[] {
     const appProfiles: AppData[] = [];
     this.apps.forEach((app) => {
@@ -356,13 +819,13 @@ class Extension {
   }
 
   async resetData(): Promise<void> {
-    this.log('resetData');
+    this.log('resetData', 'info');
     await this.config.browser.storage.sync.clear();
     await this.config.browser.storage.local.clear();
   }
 
   async removeUser(userId: string, enableSync: boolean): Promise<void> {
-    this.log(`removeUser: ${userId}`);
+    this.log(`removeUser:${userId}`, 'info');
     
     // Load user to get appProfileIds
     const user = await this.loadUser(userId, enableSync);
@@ -373,15 +836,19 @@ class Extension {
     
     // Remove user-specific storage keys
     const storage = enableSync ? this.config.browser.storage.sync : this.config.browser.storage.local;
-    await storage.remove([
+    await this.removeData([
       `${this.config.name}-user-${userId}`,
       `${this.config.name}-custom-${userId}`
-    ]);
+    ], storage);
     
-    // Remove associated app profiles
+    // Remove associated app profiles, archived customizations & sync report
     if (user.appProfileIds && user.appProfileIds.length > 0) {
       await this.config.browser.storage.local.remove(user.appProfileIds);
     }
+    await this.config.browser.storage.local.remove([
+      `${this.config.name}-archive-${userId}`,
+      `${this.config.name}-sync-report-${userId}`,
+    ]);
     
     // Remove IAM logins for user's profiles
     const iamLogins = await this.loadIamLogins();
@@ -393,8 +860,8 @@ class Extension {
     }
     
     // Remove user from users list
-    const usersData = await this.config.browser.storage.sync.get(`${this.config.name}-users`);
-    const users = usersData[`${this.config.name}-users`] ? JSON.parse(usersData[`${this.config.name}-users`]).users : [];
+    const usersData = await this.loadRaw(`${this.config.name}-users`, this.config.browser.storage.sync);
+    const users = usersData ? JSON.parse(usersData as string).users : [];
     const updatedUsers = users.filter((id: string) => id !== userId);
     await this.saveData(`${this.config.name}-users`, { users: updatedUsers }, this.config.browser.storage.sync);
     
@@ -416,27 +883,243 @@ class Extension {
   ): Promise<void> {
     this.log(`saveData:${dataKey}`);
     this.log(data);
-    const dataObj = {};
-    dataObj[dataKey] = JSON.stringify(
+    const value = JSON.stringify(
       typeof data === 'object' ? { ...data, updatedAt: Date.now() } : data,
     );
-    await db.set(dataObj);
+    if (db === this.config.browser.storage.sync) {
+      await this.saveSync(dataKey, value);
+      return;
+    }
+    await db.set({ [dataKey]: value });
+  }
+
+  async saveSync(key: string, value: string): Promise<void> {
+    const { sync, local } = this.config.browser.storage;
+    const items = chunkValue(key, value);
+    const stored = await sync.get(null);
+    const ownKeys = Object.keys(stored).filter((k) => isChunkOf(key, k));
+    const others = Object.entries(stored).filter(([k]) => !isChunkOf(key, k));
+    const usage = [...others, ...Object.entries(items)]
+      .reduce((bytes, [k, v]) => bytes + syncItemBytes(k, v), 0);
+    this.log(`saveSync:${key}:${usage}/${SYNC_QUOTA_BYTES}`);
+    if (usage <= SYNC_QUOTA_BYTES && others.length + Object.keys(items).length <= SYNC_MAX_ITEMS) {
+      try {
+        await sync.set(items);
+        // fewer chunks than before
+        await sync.remove(ownKeys.filter((k) => !(k in items)));
+        await this.setSyncOverflow(key, false);
+        return;
+      } catch (err) {
+        this.log(err);
+      }
+    }
+    // out of sync capacity, keep the data on this browser instead
+    this.log(`saveSync:overflow:${key}`, 'warn');
+    await local.set({ [key]: value });
+    await sync.remove(ownKeys);
+    await this.setSyncOverflow(key, true);
+  }
+
+  async loadSyncOverflow(): Promise<string[]> {
+    const overflowKey = `${this.config.name}-sync-overflow`;
+    const overflowData = await this.config.browser.storage.local.get(overflowKey);
+    const overflow = await this.parseRecord(overflowKey, overflowData[overflowKey], this.config.browser.storage.local);
+    return overflow && Array.isArray(overflow.keys) ? overflow.keys : [];
+  }
+
+  async setSyncOverflow(key: string, overflowed: boolean): Promise<void> {
+    const keys = await this.loadSyncOverflow();
+    if (keys.includes(key) === overflowed) {
+      return;
+    }
+    await this.saveData(
+      `${this.config.name}-sync-overflow`,
+      { keys: overflowed ? [...keys, key] : keys.filter((k) => k !== key) },
+      this.config.browser.storage.local,
+    );
   }
 
-  saveCustom(custom: UserData['custom'], userId: UserData['userId'], enableSync: ExtensionSettings['enableSync']): void {
-    this.saveData(
+  async loadRaw(
+    key: string,
+    db: Browser.Storage.LocalStorageArea | Browser.Storage.SyncStorageAreaSync,
+  ): Promise<unknown> {
+    let storage = db;
+    if (db === this.config.browser.storage.sync && (await this.loadSyncOverflow()).includes(key)) {
+      storage = this.config.browser.storage.local;
+    }
+    const raw = (await storage.get(key))[key];
+    if (!isPlainObject(raw) || typeof raw.chunks !== 'number') {
+      return raw;
+    }
+    const chunkKeys = [...Array(raw.chunks).keys()].map((i) => `${key}-chunk-${i}`);
+    const chunks = await storage.get(chunkKeys);
+    // missing chunks leave malformed json for parseRecord to quarantine
+    return chunkKeys.map((k) => chunks[k] ?? '').join('');
+  }
+
+  async removeData(
+    keys: string[],
+    db: Browser.Storage.LocalStorageArea | Browser.Storage.SyncStorageAreaSync,
+  ): Promise<void> {
+    const stored = Object.keys(await db.get(null));
+    await db.remove(stored.filter((k) => keys.some((key) => isChunkOf(key, k))));
+    if (db === this.config.browser.storage.sync) {
+      // including copies kept locally while sync was full
+      const overflow = await this.loadSyncOverflow();
+      if (overflow.some((k) => keys.includes(k))) {
+        await this.config.browser.storage.local.remove(keys);
+        await this.saveData(
+          `${this.config.name}-sync-overflow`,
+          { keys: overflow.filter((k) => !keys.includes(k)) },
+          this.config.browser.storage.local,
+        );
+      }
+    }
+  }
+
+  async parseRecord(key: string, raw: unknown, db: Browser.Storage.LocalStorageArea | Browser.Storage.SyncStorageAreaSync): Promise<Record<string, unknown> | null> {
+    if (raw === undefined) {
+      return null;
+    }
+    try {
+      const record = JSON.parse(raw as string);
+      if (isPlainObject(record)) {
+        return record;
+      }
+    } catch {
+      // quarantined below
+    }
+    await this.quarantineRecord(key, raw, db);
+    return null;
+  }
+
+  async quarantineRecord(key: string, raw: unknown, db: Browser.Storage.LocalStorageArea | Browser.Storage.SyncStorageAreaSync): Promise<void> {
+    this.log(`quarantineRecord:${key}`, 'warn');
+    // keep malformed records for recovery, out of the way of the popup
+    const quarantineKey = `${this.config.name}-quarantine`;
+    const quarantineData = await this.config.browser.storage.local.get(quarantineKey);
+    let quarantine = {};
+    try {
+      quarantine = JSON.parse(quarantineData[quarantineKey]) || {};
+    } catch {
+      // missing or malformed itself, start over
+    }
+    if (quarantine[key]?.raw !== raw) {
+      quarantine[key] = { raw, quarantinedAt: Date.now() };
+      await this.saveData(quarantineKey, quarantine, this.config.browser.storage.local);
+    }
+    // synced records may be mid-sync from another browser, removing them would wipe every browser
+    if (db !== this.config.browser.storage.sync) {
+      await this.removeData([key], db);
+    }
+  }
+
+  async migrateData(): Promise<void> {
+    const schemaKey = `${this.config.name}-schema`;
+    const schemaData = await this.loadRaw(schemaKey, this.config.browser.storage.sync);
+    const schema = await this.parseRecord(schemaKey, schemaData, this.config.browser.storage.sync);
+    const version = typeof schema?.version === 'number' ? schema.version : 0;
+    if (version >= SCHEMA_VERSION) {
+      return;
+    }
+    this.log(`migrateData:${version}:${SCHEMA_VERSION}`);
+    const settings = await this.loadSettings();
+    const users = (await this.loadUsers(settings.enableSync)).filter((user) => user.userId);
+    this.applyMigrations(version, settings, users);
+    await this.saveSettings(settings);
+    await Promise.all(users.map((user) => this.saveCustom(user.custom, user.userId, settings.enableSync)));
+    await this.saveData(schemaKey, { version: SCHEMA_VERSION }, this.config.browser.storage.sync);
+  }
+
+  applyMigrations(version: number, settings: ExtensionSettings, users: UserData[]): void {
+    migrations.filter((m) => m.version > version).forEach((migration) => {
+      this.log(`migrateData:${migration.version}:${migration.description}`, 'info');
+      migration.settings?.(settings);
+      users.forEach((user) => migration.custom?.(user.custom));
+    });
+  }
+
+  async loadBaseline(): Promise<Baseline | null> {
+    const baselineKey = `${this.config.name}-baseline`;
+    const baselineData = await this.loadRaw(baselineKey, this.config.browser.storage.local);
+    const baseline = await this.parseRecord(baselineKey, baselineData, this.config.browser.storage.local);
+    this.baseline = baseline ? repairRecord<Baseline>(baseline, { accounts: {}, iamRoles: [] }) : null;
+    return this.baseline;
+  }
+
+  parseBaseline(data: unknown, source: string): Baseline {
+    // { name, accounts: { accountId: { label, color, tags, ... } }, iamRoles: [...] }
+    if (!isPlainObject(data)) {
+      throw new Error('Baseline must be a JSON object');
+    }
+    const accounts = data.accounts ?? {};
+    if (!isPlainObject(accounts)) {
+      throw new Error('Baseline accounts must be an object keyed by account id');
+    }
+    Object.entries(accounts).forEach(([accountId, account]) => {
+      if (!/^\d{12}$/.test(accountId) || !isPlainObject(account)) {
+        throw new Error(`Invalid baseline account ${accountId}`);
+      }
+    });
+    const iamRoles = data.iamRoles ?? [];
+    if (!Array.isArray(iamRoles)) {
+      throw new Error('Baseline iamRoles must be a list');
+    }
+    iamRoles.forEach((role, idx) => {
+      if (!isPlainObject(role) || !role.ssoAccountId || !role.ssoRoleName || !role.accountId || !role.roleName) {
+        throw new Error(`Baseline IAM role ${idx + 1} needs ssoAccountId, ssoRoleName, accountId & roleName`);
+      }
+    });
+    return {
+      name: typeof data.name === 'string' && data.name ? data.name : 'Shared baseline',
+      source,
+      importedAt: Date.now(),
+      accounts: Object.fromEntries(Object.entries(accounts).map(([accountId, account]) => [
+        accountId,
+        repairRecord<CustomData>(account as Record<string, unknown>, {
+          label: null, color: '', iamRoles: [], tags: [],
+        }),
+      ])),
+      iamRoles: iamRoles.map((role) => ({
+        label: '', color: '', destination: null, sourceRole: null, ...role,
+      })),
+    };
+  }
+
+  async importBaseline(data: unknown, source: string): Promise<Baseline> {
+    this.log('importBaseline', 'info');
+    // re-importing replaces the previous version, personal settings are untouched
+    const baseline = this.parseBaseline(data, source);
+    await this.saveData(`${this.config.name}-baseline`, baseline, this.config.browser.storage.local);
+    this.baseline = baseline;
+    return baseline;
+  }
+
+  async removeBaseline(): Promise<void> {
+    this.log('removeBaseline', 'info');
+    await this.removeData([`${this.config.name}-baseline`], this.config.browser.storage.local);
+    this.baseline = null;
+  }
+
+  saveCustom(custom: UserData['custom'], userId: UserData['userId'], enableSync: ExtensionSettings['enableSync']): Promise<void> {
+    // baseline roles are merged in when customizing profiles, keep them out of personal settings
+    const profiles = Object.fromEntries(Object.entries(custom.profiles).map(([id, profile]) => [
+      id,
+      { ...profile, iamRoles: (profile.iamRoles || []).filter((role) => !role.baseline) },
+    ]));
+    return this.saveData(
       `${this.config.name}-custom-${userId}`,
-      custom,
+      { ...custom, profiles },
       enableSync ? this.config.browser.storage.sync : this.config.browser.storage.local,
     );
   }
 
-  saveUser(
+  async saveUser(
     user: UserData,
     enableSync: ExtensionSettings['enableSync'],
   ): Promise<void> {
     if ('custom' in user) {
-      this.saveCustom(user.custom, user.userId, enableSync);
+      await this.saveCustom(user.custom, user.userId, enableSync);
     }
     return this.saveData(
       `${this.config.name}-user-${user.userId}`,
@@ -445,19 +1128,197 @@ class Extension {
     );
   }
 
-  saveAppProfiles(user: UserData, enableSync: ExtensionSettings['enableSync']): void {
+  async saveAppProfiles(user: UserData, data: ExtensionData): Promise<void> {
     this.log('saveAppProfiles');
     const appProfiles = this.parseAppProfiles();
-    appProfiles.forEach((appProfile) => {
-      this.saveData(
-        appProfile.profile?.id,
-        appProfile,
-        this.config.browser.storage.local,
+    await Promise.all(appProfiles.map((appProfile) => this.saveData(
+      appProfile.profile?.id,
+      appProfile,
+      this.config.browser.storage.local,
+    )));
+    const previous = data.users.find((u) => u.userId === user.userId);
+    // the first sync has nothing to compare against
+    if (previous && previous.appProfileIds.length > 0) {
+      await this.reconcileAppProfiles(previous, appProfiles, data);
+    }
+    const appProfileIds = appProfiles.map((ap) => ap.profile?.id);
+    await this.saveUser({ ...user, appProfileIds }, data.settings.enableSync);
+  }
+
+  async reconcileAppProfiles(previous: UserData, appProfiles: AppData[], data: ExtensionData): Promise<void> {
+    const { local } = this.config.browser.storage;
+    const appProfileIds = appProfiles.map((ap) => ap.profile.id);
+    const removedIds = previous.appProfileIds.filter((id) => !appProfileIds.includes(id));
+    const { added, removed } = diffAppProfiles(
+      data.appProfiles.filter((ap) => previous.appProfileIds.includes(ap.profile.id)),
+      appProfiles,
+    );
+    if (added.length === 0 && removedIds.length === 0) {
+      return;
+    }
+    this.log(`reconcileAppProfiles:+${added.length}:-${removedIds.length}`, 'info');
+
+    // purge stale app profiles & pending logins, unless another user still has them
+    const otherIds = data.users.filter((u) => u.userId !== previous.userId).flatMap((u) => u.appProfileIds);
+    const staleIds = removedIds.filter((id) => !otherIds.includes(id));
+    if (staleIds.length > 0) {
+      await local.remove(staleIds);
+      const iamLogins = await this.loadIamLogins();
+      if (staleIds.some((id) => id in iamLogins)) {
+        staleIds.forEach((id) => { delete iamLogins[id]; });
+        await this.saveData(`${this.config.name}-iam-logins`, iamLogins, local);
+      }
+    }
+
+    // archive customizations of removed profiles & accounts, restore returning ones
+    const { custom } = previous;
+    const archive = await this.loadArchive(previous.userId);
+    const archivedAt = Date.now();
+    const accountIds = new Set(appProfiles.map((ap) => ap.searchMetadata?.AccountId));
+    let archived = 0;
+    let restored = 0;
+    removedIds.filter((id) => id in custom.profiles).forEach((id) => {
+      archive.profiles[id] = { ...custom.profiles[id], archivedAt };
+      delete custom.profiles[id];
+      archived += 1;
+    });
+    Object.keys(custom.accounts).filter((id) => removed.some(
+      (change) => change.kind === 'account' && change.accountId === id,
+    )).forEach((id) => {
+      archive.accounts[id] = { ...custom.accounts[id], archivedAt };
+      delete custom.accounts[id];
+      archived += 1;
+    });
+    appProfileIds.filter((id) => id in archive.profiles && !(id in custom.profiles)).forEach((id) => {
+      // eslint-disable-next-line no-unused-vars
+      const { archivedAt: _, ...profile } = archive.profiles[id];
+      custom.profiles[id] = profile;
+      delete archive.profiles[id];
+      restored += 1;
+    });
+    Object.keys(archive.accounts).filter((id) => accountIds.has(id) && !(id in custom.accounts)).forEach((id) => {
+      // eslint-disable-next-line no-unused-vars
+      const { archivedAt: _, ...account } = archive.accounts[id];
+      custom.accounts[id] = account;
+      delete archive.accounts[id];
+      restored += 1;
+    });
+    if (archived > 0 || restored > 0) {
+      this.log(`reconcileAppProfiles:archived:${archived}:restored:${restored}`, 'info');
+      await this.saveData(`${this.config.name}-archive-${previous.userId}`, archive, local);
+      await this.saveCustom(custom, previous.userId, data.settings.enableSync);
+    }
+
+    // kept until dismissed in the popup, the next change replaces it
+    if (added.length > 0 || removed.length > 0) {
+      await this.saveData(
+        `${this.config.name}-sync-report-${previous.userId}`,
+        { userId: previous.userId, syncedAt: Date.now(), added, removed },
+        local,
       );
+    }
+  }
+
+  async loadSyncStatus(): Promise<SyncStatus> {
+    const statusKey = `${this.config.name}-sync-status`;
+    const statusData = await this.config.browser.storage.local.get(statusKey);
+    const stored = await this.parseRecord(statusKey, statusData[statusKey], this.config.browser.storage.local) || {};
+    const status = repairRecord<SyncStatus>(stored, this.defaultSyncStatus);
+    const updatedAt = typeof stored.updatedAt === 'number' ? stored.updatedAt : status.startedAt;
+    if (status.state === 'syncing' && Date.now() - (updatedAt || 0) > SYNC_STALE_MS) {
+      return {
+        ...status,
+        state: 'failed',
+        error: { category: 'unknown', message: 'Sync was interrupted, the portal tab may have closed' },
+      };
+    }
+    return status;
+  }
+
+  saveSyncStatus(status: SyncStatus): Promise<void> {
+    return this.saveData(`${this.config.name}-sync-status`, status, this.config.browser.storage.local);
+  }
+
+  async retrySync(): Promise<boolean> {
+    // reopening the portal runs the sync again
+    const { portalUrl } = await this.loadSyncStatus();
+    this.log(`retrySync:${portalUrl}`, 'info');
+    if (!portalUrl) {
+      return false;
+    }
+    await this.config.browser.tabs.create({ url: portalUrl });
+    return true;
+  }
+
+  async loadArchive(userId: string): Promise<ProfileArchive> {
+    const archiveKey = `${this.config.name}-archive-${userId}`;
+    const archiveData = await this.config.browser.storage.local.get(archiveKey);
+    const archive = await this.parseRecord(archiveKey, archiveData[archiveKey], this.config.browser.storage.local);
+    const { profiles, accounts } = repairRecord<ProfileArchive>(archive || {}, { profiles: {}, accounts: {} });
+    return { profiles, accounts };
+  }
+
+  async loadSyncReport(userId: string): Promise<SyncReport | null> {
+    const reportKey = `${this.config.name}-sync-report-${userId}`;
+    const reportData = await this.config.browser.storage.local.get(reportKey);
+    const report = await this.parseRecord(reportKey, reportData[reportKey], this.config.browser.storage.local);
+    return report && Array.isArray(report.added) && Array.isArray(report.removed)
+      ? repairRecord<SyncReport>(report, {})
+      : null;
+  }
+
+  dismissSyncReport(userId: string): Promise<void> {
+    this.log(`dismissSyncReport:${userId}`);
+    return this.config.browser.storage.local.remove(`${this.config.name}-sync-report-${userId}`);
+  }
+
+  defaultProfileCustom(user: UserData): CustomData {
+    return {
+      favorite: false,
+      hide: false,
+      label: null,
+      iamRoles: [] as IamRole[],
+      color: user.custom.colorDefault,
+    };
+  }
+
+  mergedAccounts(user: UserData): UserData['custom']['accounts'] {
+    // baseline accounts with personal account settings layered on top
+    if (!this.baseline) {
+      return user.custom.accounts;
+    }
+    const accounts = { ...this.baseline.accounts };
+    Object.entries(user.custom.accounts).forEach(([accountId, account]) => {
+      accounts[accountId] = mergeCustom(accounts[accountId], account)!;
     });
-    const appProfileIds = appProfiles.map((ap) => ap.profile?.id);
-    const data = { ...user, appProfileIds };
-    this.saveUser(data, enableSync);
+    return accounts;
+  }
+
+  baselineFields(user: UserData, accountId: string): string[] {
+    // account settings currently provided by the baseline
+    const base = this.baseline?.accounts[accountId];
+    if (!base) {
+      return [];
+    }
+    const own = user.custom.accounts[accountId];
+    const fields = ['label', 'color', 'destination', 'region'].filter((key) => ![null, undefined, ''].includes(base[key])
+      && [null, undefined, ''].includes(own?.[key]));
+    if (base.tags?.length) { fields.push('tags'); }
+    if (base.protected === true) { fields.push('protected'); }
+    return fields;
+  }
+
+  baselineIamRoles(profile: AppData): IamRole[] {
+    return (this.baseline?.iamRoles || [])
+      .filter((role) => role.ssoAccountId === profile.searchMetadata?.AccountId
+        && role.ssoRoleName === profile.profile.name)
+      // eslint-disable-next-line no-unused-vars
+      .map(({ ssoAccountId, ssoRoleName, ...role }) => ({
+        ...role,
+        profileId: profile.profile.id,
+        color: role.color || profile.profile.custom?.color || '',
+        baseline: true,
+      }));
   }
 
   customizeProfiles(
@@ -465,13 +1326,8 @@ class Extension {
     appProfiles: AppData[],
   ): AppData[] {
     this.log('customizeProfiles');
-    const defaults: CustomData = {
-      favorite: false,
-      hide: false,
-      label: null,
-      iamRoles: [] as IamRole[],
-      color: user.custom.colorDefault
-    };
+    const defaults = this.defaultProfileCustom(user);
+    const accounts = this.mergedAccounts(user);
 
     const customProfiles: AppData[] = [];
     appProfiles.forEach((ap) => {
@@ -482,14 +1338,41 @@ class Extension {
         : defaults as CustomData;
       // inherit or override account color
       if (profile.applicationName === 'AWS Account') {
-        if (profile.searchMetadata?.AccountId! in user.custom.accounts) {
+        if (accounts[profile.searchMetadata?.AccountId!]?.color) {
           if (user.custom.accountsOverride || profile.profile.custom.color === user.custom.colorDefault) {
             profile.profile.custom = {
               ...profile.profile.custom,
-              color: user.custom.accounts[ap.searchMetadata?.AccountId!].color,
+              color: accounts[ap.searchMetadata?.AccountId!].color,
             };
           }
         }
+        // personal iam roles win over baseline roles with the same account & name
+        const ownRoles = profile.profile.custom.iamRoles || [];
+        const baselineRoles = this.baselineIamRoles(profile).filter((role) => !ownRoles.some(
+          (own) => own.accountId === role.accountId && own.roleName === role.roleName,
+        ));
+        if (baselineRoles.length > 0) {
+          profile.profile.custom = {
+            ...profile.profile.custom,
+            iamRoles: [...ownRoles, ...baselineRoles],
+          };
+        }
+        // fallback to the first matching rule
+        const rule = this.matchRule(user, profile);
+        if (rule?.color && this.isDefaultColor(profile.profile.custom.color, user)) {
+          profile.profile.custom = {
+            ...profile.profile.custom,
+            color: rule.color,
+          };
+        }
+        // iam roles match rules on their own role name
+        profile.profile.custom = {
+          ...profile.profile.custom,
+          iamRoles: profile.profile.custom.iamRoles.map((role) => {
+            const roleRule = this.matchRule(user, profile, role);
+            return roleRule?.color && this.isDefaultColor(role.color, user) ? { ...role, color: roleRule.color } : role;
+          }),
+        };
       }
       customProfiles.push(profile);
     });
@@ -498,6 +1381,110 @@ class Extension {
     return customProfiles;
   }
 
+  profileTargets(data: ExtensionData): ProfileTarget[] {
+    // aws account profiles & their iam roles for every user
+    const targets: ProfileTarget[] = [];
+    data.users.forEach((user) => {
+      const appProfiles = data.appProfiles.filter((ap) => ap.applicationName === 'AWS Account'
+        && user.appProfileIds.includes(ap.profile.id));
+      const accounts = this.mergedAccounts(user);
+      this.customizeProfiles(user, appProfiles).forEach((profile) => {
+        const accountName = accounts[profile.searchMetadata!.AccountId]?.label
+          || profile.searchMetadata!.AccountName;
+        targets.push({
+          label: this.sessionLabelSso(profile, user),
+          detail: `${profile.searchMetadata!.AccountId} · ${accountName}`,
+          color: profile.profile.custom!.color || user.custom.colorDefault,
+          user,
+          profile,
+          role: null,
+        });
+        profile.profile.custom!.iamRoles.forEach((role) => {
+          targets.push({
+            label: this.prefixLabel(this.buildLabel(
+              user.custom.sessionLabelIam,
+              user.custom.displayName || user.subject,
+              profile.profile.custom!.label || profile.profile.name,
+              role.label || role.roleName,
+              role.accountId,
+              accountName,
+              user.custom.accounts,
+            ), user, profile, role),
+            detail: `IAM role ${role.accountId} · ${role.roleName}`,
+            color: role.color || profile.profile.custom!.color,
+            user,
+            profile,
+            role,
+          });
+        });
+      });
+    });
+    return targets;
+  }
+
+  matchRule(user: UserData, profile: AppData, iamRole: IamRole | null = null): ProfileRule | null {
+    // rules are ordered, first match wins
+    const rules = user.custom.rules || [];
+    const accountId = profile.searchMetadata?.AccountId || '';
+    const accounts = this.mergedAccounts(user);
+    const fields = {
+      accountId: [accountId],
+      accountName: [profile.searchMetadata?.AccountName || '', accounts[accountId]?.label || ''],
+      role: [iamRole ? iamRole.roleName : profile.profile.name],
+      tag: this.profileTags(profile, accounts),
+    };
+    return rules.find((rule) => fields[rule.field].some((value) => {
+      if (value === '') { return false; }
+      if (rule.match === 'equals') { return value === rule.value; }
+      if (rule.match === 'contains') { return value.toLowerCase().includes(rule.value.toLowerCase()); }
+      try {
+        return new RegExp(rule.value).test(value);
+      } catch {
+        // invalid patterns never match
+        return false;
+      }
+    })) || null;
+  }
+
+  isProtected(user: UserData, profile: AppData, iamRole: IamRole | null = null): boolean {
+    // iam roles are protected by the account they assume into
+    const accounts = this.mergedAccounts(user);
+    if (iamRole) {
+      return accounts[iamRole.accountId]?.protected === true;
+    }
+    return profile.profile.custom?.protected === true
+      || accounts[profile.searchMetadata?.AccountId!]?.protected === true;
+  }
+
+  ruleLabel(label: string, rule: ProfileRule | null): string {
+    return rule?.labelPrefix ? `${rule.labelPrefix} ${label}` : label;
+  }
+
+  prefixLabel(label: string, user: UserData, profile: AppData, iamRole: IamRole | null = null): string {
+    // rules only prefix aws account labels that aren't customized
+    const customLabel = iamRole ? iamRole.label : profile.profile.custom?.label;
+    if (customLabel || profile.applicationName !== 'AWS Account') {
+      return label;
+    }
+    return this.ruleLabel(label, this.matchRule(user, profile, iamRole));
+  }
+
+  isDefaultColor(color: string | null | undefined, user: UserData): boolean {
+    // new iam roles & accounts always carry the default color, it counts as unset
+    return [undefined, null, '', user.custom.colorDefault, this.defaultCustom.colorDefault].includes(color);
+  }
+
+  parseTags(tags: string): string[] {
+    // env:prod, team:payments
+    return [...new Set(tags.split(',').map((t) => t.trim()).filter((t) => t !== ''))];
+  }
+
+  profileTags(profile: AppData, accounts: UserData['custom']['accounts']): string[] {
+    // account tags apply to all profiles in the account
+    const account = accounts[profile.searchMetadata?.AccountId!];
+    return [...new Set([...(account?.tags || []), ...(profile.profile.custom?.tags || [])])];
+  }
+
   findAppProfile(
     ssoRoleName: string,
     accountId: string,
@@ -568,29 +1555,31 @@ class Extension {
 
   async update(user: UserData): Promise<void> {
     this.log('updateData');
-    await this.loadData().then((data) => {
+    await this.loadData().then(async (data) => {
       const userIds = [user.userId, ...data.users.map((u) => u.userId)];
       // update user list
-      this.saveData(
+      await this.saveData(
         `${this.config.name}-users`,
         { users: [...new Set(userIds)] },
         this.config.browser.storage.sync,
       );
-      this.saveAppProfiles(user, data.settings.enableSync);
+      await this.saveAppProfiles(user, data);
     });
   }
 
-  switchRole(label: string, role: IamRole) {
+  switchRole(label: string, role: IamRole, destination?: string | null) {
+    // switch within the partition of the current console
+    const hosts = this.partitionHosts(this.partitionFromUrl(window.location.href));
     const roleArgs = [
       `displayName=${label}`,
       `roleName=${role.roleName}`,
       `account=${role.accountId}`,
       `redirect_uri=${encodeURIComponent(
-        'https://console.aws.amazon.com/console/home',
+        destination || `https://${hosts.console}/console/home`,
       )}`,
     ].join('&');
     // using the url hash, identify when this extension is switching roles
-    window.location.href = `https://signin.aws.amazon.com/switchrole?${roleArgs}#${this.config.name}`;
+    window.location.href = `https://${hosts.signin}/switchrole?${roleArgs}#${this.config.name}`;
   }
 
   async navCurrentTab(url: string) {
@@ -608,6 +1597,8 @@ class Extension {
     user: UserData,
     users: UserData[],
     settings: ExtensionSettings,
+    bookmarkUrl?: string | null,
+    closeWindow = false,
   ) {
     let nav = true;
     // eslint-disable-next-line vue/max-len
@@ -618,10 +1609,14 @@ class Extension {
       // eslint-disable-next-line no-param-reassign
       user = this.findUserByProfileId(profile.profile.id, users);
     }
+    // record before the popup closes
+    await this.recordLaunch(profile.profile.id);
+    // the console tab starts a new session
+    await this.endConsoleSession(profile.profile.id);
     this.log('createProfileUrl');
     this.log(user);
     this.log(profile);
-    const profileUrl = await this.createProfileUrl(user, profile);
+    const profileUrl = await this.createProfileUrl(user, profile, bookmarkUrl);
     this.log(profileUrl);
     if (this.platform === 'firefox' && settings.firefoxContainers) {
       let containers: ContextualIdentity[] = [];
@@ -662,15 +1657,70 @@ class Extension {
           url: profileUrl,
         });
       }
-      window.close();
+      // popups only, the background service worker has no window
+      if (closeWindow) {
+        window.close();
+      }
     }
   }
 
+  async assumeIamRole(
+    iamRole: IamRole,
+    profile: AppData,
+    user: UserData,
+    users: UserData[],
+    settings: ExtensionSettings,
+  ) {
+    this.log('assumeIamRole');
+    this.log(iamRole);
+    // the console matches iam roles against the last profile
+    // eslint-disable-next-line no-param-reassign
+    settings.lastProfileId = profile.profile.id;
+    await this.saveSettings(settings);
+    await this.recordLaunch(profile.profile.id, iamRole);
+    await this.endConsoleSession(profile.profile.id);
+    if (settings.showAllProfiles && !user.appProfileIds.includes(profile.profile.id)) {
+      // eslint-disable-next-line no-param-reassign
+      user = this.findUserByProfileId(profile.profile.id, users);
+    }
+    await this.queueIamLogin(iamRole, user);
+    const profileUrl = await this.createProfileUrl(user, profile);
+    if (settings.navCurrentTab) {
+      this.navCurrentTab(profileUrl);
+    } else {
+      await this.config.browser.tabs.create({ url: profileUrl });
+    }
+  }
+
+  async saveBookmark(
+    user: UserData,
+    appProfile: AppData,
+    bookmark: Bookmark,
+    iamRole: IamRole | null,
+  ): Promise<void> {
+    this.log('saveBookmark');
+    const custom = user.custom.profiles[appProfile.profile.id] || this.defaultProfileCustom(user);
+    if (iamRole) {
+      custom.iamRoles.forEach((role) => {
+        if (role.accountId === iamRole.accountId && role.roleName === iamRole.roleName) {
+          // eslint-disable-next-line no-param-reassign
+          role.bookmarks = [...(role.bookmarks || []), bookmark];
+        }
+      });
+    } else {
+      custom.bookmarks = [...(custom.bookmarks || []), bookmark];
+    }
+    // eslint-disable-next-line no-param-reassign
+    user.custom.profiles[appProfile.profile.id] = custom;
+    const settings = await this.loadSettings();
+    await this.saveUser(user, settings.enableSync);
+  }
+
   sessionLabelSso(profile, user) {
     if (profile.applicationName !== 'AWS Account') {
       return profile.profile.custom!.label || profile.profile.name;
     }
-    return this.buildLabel(
+    return this.prefixLabel(this.buildLabel(
       user.custom.sessionLabelSso,
       user.custom.displayName || user.subject,
       profile.profile.custom!.label || profile.profile.name,
@@ -678,29 +1728,266 @@ class Extension {
       profile.searchMetadata!.AccountId,
       profile.searchMetadata!.AccountName,
       user.custom.accounts,
+    ), user, profile);
+  }
+
+  cliProfileName(profile: AppData, user: UserData): string {
+    const name = this.buildLabel(
+      user.custom.cliProfileName || this.defaultCustom.cliProfileName,
+      user.custom.displayName || user.subject,
+      profile.profile.custom?.label || profile.profile.name,
+      null,
+      profile.searchMetadata!.AccountId,
+      profile.searchMetadata!.AccountName,
+      user.custom.accounts,
     );
+    // aws cli profile names can't contain whitespace or brackets
+    return name.trim().replace(/\s+/g, '-').replace(/[^\w.@+-]/g, '');
   }
 
-  importUserConfig(userId: UserData['userId'], cfg: UserConfig): boolean {
-    this.log('importUserConfig');
-    this.log(cfg);
-    try {
-      // check top level keys
-      let missingKeys = false;
-      const requiredKeys = ['user', 'extension'];
-      requiredKeys.forEach((key) => {
-        if (!(key in cfg)) {
-          this.log(`Missing required key: ${key} of ${requiredKeys}`);
-          missingKeys = true;
+  buildAwsConfig(user: UserData, appProfiles: AppData[]): string {
+    this.log('buildAwsConfig');
+    // users synced before ssoRegion was stored fall back to the default portal region
+    const ssoRegion = user.ssoRegion || 'us-east-1';
+    const session = user.managedActiveDirectoryId;
+    const lines = [
+      `[sso-session ${session}]`,
+      `sso_start_url = ${this.portalUrl(user.managedActiveDirectoryId, user.partition)}`,
+      `sso_region = ${ssoRegion}`,
+      'sso_registration_scopes = sso:account:access',
+    ];
+    const names: string[] = [];
+    appProfiles
+      .filter((ap) => ap.applicationName === 'AWS Account')
+      .forEach((ap) => {
+        let name = this.cliProfileName(ap, user);
+        // keep profile names unique, the cli only reads the last duplicate
+        if (names.includes(name)) {
+          name = `${name}-${ap.searchMetadata!.AccountId}`;
         }
+        names.push(name);
+        lines.push(
+          '',
+          `[profile ${name}]`,
+          `sso_session = ${session}`,
+          `sso_account_id = ${ap.searchMetadata!.AccountId}`,
+          `sso_role_name = ${ap.profile.name}`,
+          `region = ${ap.profile.custom?.region || this.mergedAccounts(user)[ap.searchMetadata!.AccountId]?.region || ssoRegion}`,
+        );
       });
-      if (missingKeys) { return false; }
-      this.saveSettings(cfg.extension);
-      this.saveCustom(cfg.user, userId, cfg.extension.enableSync);
-      return true;
+    return `${lines.join('\n')}\n`;
+  }
+
+  parseAwsConfig(config: string): Record<string, Record<string, string>> {
+    this.log('parseAwsConfig');
+    const sections: Record<string, Record<string, string>> = {};
+    let section: Record<string, string> | null = null;
+    config.split(/\r?\n/).forEach((line) => {
+      // skip comments, blank & nested (indented) lines
+      if (line.trim() === '' || /^\s*[#;]/.test(line) || /^\s/.test(line)) { return; }
+      const header = /^\[(.+)\]$/.exec(line.trim());
+      if (header) {
+        section = {};
+        sections[header[1].replace(/^profile\s+/, '').trim()] = section;
+        return;
+      }
+      const idx = line.indexOf('=');
+      if (section && idx !== -1) {
+        section[line.substring(0, idx).trim()] = line.substring(idx + 1).trim();
+      }
+    });
+    return sections;
+  }
+
+  matchAwsConfigRoles(config: string, appProfiles: AppData[]): AwsConfigRoles {
+    this.log('matchAwsConfigRoles');
+    const profiles = this.parseAwsConfig(config);
+    const roles: AwsConfigRoles = { matched: [], unmatched: [] };
+    Object.entries(profiles).forEach(([name, profile]) => {
+      if (!profile.role_arn) { return; }
+      // arn:aws:iam::123412341234:role/path/roleName, the path is part of the name
+      const accountId = profile.role_arn.split(':')[4];
+      const roleName = profile.role_arn.split(':role/')[1];
+      const source = profiles[profile.source_profile];
+      // role chains, walk source profiles up to the sso profile
+      let rootName = profile.source_profile;
+      const seen = new Set([name]);
+      while (profiles[rootName]?.role_arn && !seen.has(rootName)) {
+        seen.add(rootName);
+        rootName = profiles[rootName].source_profile;
+      }
+      const root = profiles[rootName];
+      if (!profile.role_arn.startsWith('arn:aws') || !accountId || !roleName) {
+        roles.unmatched.push({ name, reason: 'Invalid role_arn' });
+      } else if (!profile.source_profile || !source || !root) {
+        roles.unmatched.push({ name, reason: 'source_profile not found' });
+      } else if (!root.sso_account_id || !root.sso_role_name) {
+        roles.unmatched.push({ name, reason: 'source_profile is not an SSO profile' });
+      } else {
+        const appProfile = appProfiles.find((ap) => (
+          ap.searchMetadata?.AccountId === root.sso_account_id
+          && ap.profile.name === root.sso_role_name
+        ));
+        if (!appProfile) {
+          roles.unmatched.push({ name, reason: `No SSO profile for ${root.sso_account_id}/${root.sso_role_name}` });
+        } else {
+          roles.matched.push({
+            name,
+            appProfile,
+            role: {
+              profileId: appProfile.profile.id,
+              accountId,
+              roleName,
+              label: name,
+              color: this.defaultCustom.colorDefault,
+              sourceRole: source.role_arn
+                ? { accountId: source.role_arn.split(':')[4], roleName: source.role_arn.split(':role/')[1] }
+                : null,
+            },
+          });
+        }
+      }
+    });
+    this.log(roles);
+    return roles;
+  }
+
+  async unlockConfig(data: unknown, passphrase: string | null = null): Promise<unknown> {
+    if (!isEncrypted(data)) {
+      return data;
+    }
+    // collected by the view, null when cancelled
+    if (passphrase === null) {
+      throw new Error('Import cancelled, the config is encrypted');
+    }
+    try {
+      return await decrypt(data, passphrase);
+    } catch (err) {
+      throw new Error('Could not decrypt the config, wrong passphrase or corrupted file', { cause: err });
+    }
+  }
+
+  async importUserConfig(userId: UserData['userId'], data: UserConfig | EncryptedConfig): Promise<boolean> {
+    this.log('importUserConfig', 'info');
+    const cfg = await this.unlockConfig(data) as UserConfig;
+    this.log(cfg);
+    try {
+      const errors = validateUserConfig(cfg);
+      if (errors.length > 0) {
+        this.log(errors);
+        return false;
+      }
     } catch {
       return false;
     }
+    // written before the caller reloads, failed writes reject
+    await Promise.all([
+      this.saveSettings(cfg.extension),
+      this.saveCustom(cfg.user, userId, cfg.extension.enableSync),
+    ]);
+    return true;
+  }
+
+  async createBackup(): Promise<ExtensionBackup> {
+    this.log('createBackup');
+    const data = await this.loadData();
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      extensionVersion: this.config.version,
+      createdAt: Date.now(),
+      data: { ...data, baseline: this.baseline },
+    };
+  }
+
+  isBackup(data: unknown): data is ExtensionBackup {
+    return isPlainObject(data) && data.format === BACKUP_FORMAT;
+  }
+
+  async restoreBackup(backup: ExtensionBackup, mode: 'replace' | 'merge'): Promise<void> {
+    this.log(`restoreBackup:${mode}`, 'info');
+    if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version ${backup.version}, update the extension first`);
+    }
+    const { data } = backup;
+    if (!isPlainObject(data) || !Array.isArray(data.users) || !Array.isArray(data.appProfiles) || !isPlainObject(data.settings)) {
+      throw new Error('Invalid backup, missing users, app profiles or settings');
+    }
+    const users = data.users.filter((user) => isPlainObject(user) && user.userId).map((user) => ({
+      ...user,
+      custom: repairRecord<UserData['custom']>(isPlainObject(user.custom) ? user.custom : {}, this.defaultCustom),
+      appProfileIds: Array.isArray(user.appProfileIds) ? user.appProfileIds : [],
+    }));
+    const backupSettings = repairRecord<ExtensionSettings>(data.settings, this.defaultSettings);
+    // older backups catch up with the current schema before they are written
+    this.applyMigrations(backup.schemaVersion || 0, backupSettings, users);
+
+    // merging keeps everything already in this browser & adds what's missing
+    const current = mode === 'merge' ? await this.loadData() : null;
+    // user data is stored where the settings in effect after the restore say
+    const settings = current?.settings || backupSettings;
+    const { local, sync } = this.config.browser.storage;
+
+    // everything is validated & staged before storage is touched
+    const currentProfileIds = new Set(current?.appProfiles.map((ap) => ap.profile.id));
+    const appProfiles = data.appProfiles
+      .filter((ap) => isPlainObject(ap?.profile) && !currentProfileIds.has(ap.profile.id));
+    const restored = users.map((user) => {
+      const own = current?.users.find((u) => u.userId === user.userId);
+      if (!own) {
+        return user;
+      }
+      return {
+        ...user,
+        ...own,
+        appProfileIds: [...new Set([...own.appProfileIds, ...user.appProfileIds])],
+        custom: {
+          ...user.custom,
+          ...own.custom,
+          accounts: { ...user.custom.accounts, ...own.custom.accounts },
+          profiles: { ...user.custom.profiles, ...own.custom.profiles },
+          sessionHours: { ...user.custom.sessionHours, ...own.custom.sessionHours },
+        },
+      };
+    });
+    const userIds = [...(current?.users || []), ...restored].map((user) => user.userId);
+    const iamLogins = { ...(isPlainObject(data.iamLogins) ? data.iamLogins : {}), ...(current?.iamLogins || {}) };
+    const baseline = isPlainObject(data.baseline) && (mode === 'replace' || !this.baseline)
+      ? this.parseBaseline(data.baseline, data.baseline.source || 'backup')
+      : null;
+
+    // replacing starts over, a failed write puts back exactly what was stored before
+    const snapshot = mode === 'replace' ? { sync: await sync.get(null), local: await local.get(null) } : null;
+    if (snapshot) {
+      await this.resetData();
+    }
+    try {
+      await Promise.all(appProfiles.map((ap) => this.saveData(ap.profile.id, ap, local)));
+      for (const user of restored) {
+        // sequential, sync writes check the remaining quota
+        // eslint-disable-next-line no-await-in-loop
+        await this.saveUser(user, settings.enableSync);
+      }
+      await this.saveData(`${this.config.name}-users`, { users: [...new Set(userIds)] }, sync);
+      await this.saveData(`${this.config.name}-iam-logins`, iamLogins, local);
+      if (baseline) {
+        await this.saveData(`${this.config.name}-baseline`, { ...baseline, importedAt: data.baseline?.importedAt || baseline.importedAt }, local);
+      }
+      if (snapshot) {
+        await this.saveSettings(settings);
+        await this.saveData(`${this.config.name}-schema`, { version: SCHEMA_VERSION }, sync);
+      }
+    } catch (err) {
+      if (snapshot) {
+        this.log('restoreBackup:rollback', 'error', err);
+        await this.resetData();
+        await local.set(snapshot.local);
+        await sync.set(snapshot.sync);
+      }
+      throw err;
+    }
+    await this.loadBaseline();
   }
 }
 
@@ -9,9 +9,21 @@ const extensionConfig: ExtensionConfig = {
   debug: import.meta.env.VITE_EXT_DEBUG === 'true',
   build: Date.now().toString(),
   permissions: {
-    console: ['https://*.console.aws.amazon.com/*'],
-    signin: ['https://signin.aws.amazon.com/switchrole?*'],
-    sso: ['https://*.awsapps.com/start/'],
+    console: [
+      'https://*.console.aws.amazon.com/*',
+      'https://*.console.amazonaws-us-gov.com/*',
+      'https://*.console.amazonaws.cn/*',
+    ],
+    signin: [
+      'https://signin.aws.amazon.com/switchrole?*',
+      'https://signin.amazonaws-us-gov.com/switchrole?*',
+      'https://signin.amazonaws.cn/switchrole?*',
+    ],
+    sso: [
+      'https://*.awsapps.com/start/',
+      'https://*.us-gov-home.awsapps.com/directory/*',
+      'https://*.awsapps.cn/start/',
+    ],
     containers: [
       'https://*.amazonaws.com/federation/console?*',
       'https://*.amazonaws-us-gov.com/federation/console?*',
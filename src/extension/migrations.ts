@@ -0,0 +1,40 @@
+import { type ExtensionSettings, type UserData } from '../types';
+
+/* ordered storage migrations, each runs once when upgrading past its version */
+
+/* eslint-disable no-unused-vars */
+export interface Migration {
+  version: number
+  description: string
+  settings?: (settings: ExtensionSettings) => void
+  custom?: (custom: UserData['custom']) => void
+}
+/* eslint-enable no-unused-vars */
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'table sorting stores the direction instead of true',
+    settings: (settings) => {
+      const { tableSettings } = settings;
+      // true sorted descending before asc/desc/ascNum/descNum existed
+      if (tableSettings.sortApp === true) { tableSettings.sortApp = 'desc'; }
+      if (tableSettings.sortProfile === true) { tableSettings.sortProfile = 'desc'; }
+    },
+  },
+  {
+    version: 2,
+    description: 'profile customizations always have a list of valid iam roles',
+    custom: (custom) => {
+      Object.values(custom.profiles).forEach((profile) => {
+        // eslint-disable-next-line no-param-reassign
+        profile.iamRoles = (Array.isArray(profile.iamRoles) ? profile.iamRoles : [])
+          .filter((role) => role?.accountId && role?.roleName);
+      });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export default migrations;
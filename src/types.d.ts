@@ -19,6 +19,15 @@ export interface ExtensionConfig {
   version: string
 }
 
+export type AwsPartition = 'aws' | 'aws-us-gov' | 'aws-cn';
+
+export interface PartitionHosts {
+  portal: string
+  console: string
+  signin: string
+  api: string
+}
+
 export interface ExtensionSettings {
   copyLinkButton: boolean;
   defaultUser: string;
@@ -39,6 +48,7 @@ export interface ExtensionSettings {
     sortCustom: boolean;
     sortApp: boolean | string;
     sortProfile: boolean | string;
+    groupTag?: string | null;
   };
 }
 
@@ -59,8 +69,12 @@ export interface ExtensionData {
 }
 
 export interface ExtensionMessage {
-  action: 'enableFirefoxContainers' | 'disableFirefoxContainers' | 'expireFirefoxContainer' | 'openProfile1' | 'openProfile2' | 'openProfile3'
+  action: 'enableFirefoxContainers' | 'disableFirefoxContainers' | 'expireFirefoxContainer' | 'openProfile1' | 'openProfile2' | 'openProfile3' | 'launchProfile'
   cookieStoreId?: string
+  // launchProfile
+  profileId?: string
+  iamRole?: IamRole | null
+  newTab?: boolean
 }
 
 export interface ApiData {
@@ -77,11 +91,15 @@ export interface UserData {
     sessionLabelIam: string,
     colorDefault: string,
     colorFooter: boolean,
+    cliProfileName: string,
     colorHeader: boolean,
     labelFooter: boolean,
     labelHeader: boolean,
     labelIcon: boolean,
     profiles: Record<string, CustomData>
+    rules?: ProfileRule[]
+    // permission set name -> session duration
+    sessionHours?: Record<string, number>
     hotkeys: {
       openProfile1: string,
       openProfile2: string,
@@ -89,6 +107,8 @@ export interface UserData {
     }
   }
   appProfileIds: string[]
+  ssoRegion?: string
+  partition?: AwsPartition
   accountId: string
   adGUID: string
   adImmutableId: string
@@ -150,8 +170,14 @@ export interface CustomData {
   hide?: boolean
   icon?: string | null
   label?: string | null
+  destination?: string | null
+  region?: string | null
   color: string;
   iamRoles: IamRole[]
+  bookmarks?: Bookmark[]
+  tags?: string[]
+  protected?: boolean
+  sessionHours?: number | null
 }
 
 export interface IamRole {
@@ -160,9 +186,166 @@ export interface IamRole {
   roleName: string
   label: string
   color: string
+  destination?: string | null
+  bookmarks?: Bookmark[]
+  // assumed from this role instead of the sso profile
+  sourceRole?: { accountId: string, roleName: string } | null
+  // pending logins only, hops left after this one
+  chain?: IamRole[]
+  // merged in from the shared baseline, never saved with personal settings
+  baseline?: boolean
+}
+
+export interface BaselineIamRole extends Omit<IamRole, 'profileId' | 'chain' | 'baseline'> {
+  // sso profile the role is added to
+  ssoAccountId: string
+  ssoRoleName: string
+}
+
+export interface Baseline {
+  name: string
+  // file name or pasted
+  source: string
+  importedAt: number
+  accounts: Record<string, CustomData>
+  iamRoles: BaselineIamRole[]
+}
+
+// an app profile added or removed between portal syncs
+export interface SyncChange {
+  profileId: string
+  profileName: string
+  appName: string
+  // account: the whole aws account is new or gone, role: within a known account
+  kind: 'account' | 'role' | 'app'
+  accountId?: string
+  accountName?: string
+}
+
+export interface SyncReport {
+  userId: string
+  syncedAt: number
+  added: SyncChange[]
+  removed: SyncChange[]
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  at: number
+  level: LogLevel
+  // popup, options, background or the content script host
+  context: string
+  message: string
+  // redacted & truncated json
+  data?: string
+}
+
+export interface LogExport {
+  extensionVersion: string
+  platform: string
+  userAgent: string
+  exportedAt: number
+  entries: LogEntry[]
+}
+
+export type SyncErrorCategory = 'no-token' | 'throttled' | 'http' | 'parse' | 'unknown';
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'success' | 'failed'
+  // portal page of the last sync, reopened to retry
+  portalUrl: string
+  startedAt: number | null
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  // the last failure, kept after later successes
+  error: {
+    category: SyncErrorCategory
+    message: string
+    status?: number
+  } | null
+  progress: {
+    apps: number
+    appsTotal: number
+    profiles: number
+  }
+}
+
+// customizations of profiles & accounts no longer in the portal, restored if they return
+export interface ProfileArchive {
+  profiles: Record<string, CustomData & { archivedAt: number }>
+  accounts: Record<string, CustomData & { archivedAt: number }>
+}
+
+export interface ProfileRule {
+  field: 'accountName' | 'accountId' | 'role' | 'tag'
+  match: 'equals' | 'contains' | 'regex'
+  value: string
+  color: string | null
+  labelPrefix: string | null
+}
+
+export interface SessionData {
+  // userId -> portal session start
+  portals: Record<string, number>
+  // profileId -> console session start
+  consoles: Record<string, number>
+}
+
+// a profile or iam role to launch, e.g. command palette & omnibox entries
+export interface ProfileTarget {
+  label: string
+  detail: string
+  color: string
+  user: UserData
+  profile: AppData
+  role: IamRole | null
+}
+
+export interface ProfileLaunch {
+  profileId: string
+  accountId?: string
+  roleName?: string
+  launchedAt: number
+}
+
+export interface Bookmark {
+  label: string
+  url: string
+}
+
+export interface AwsConfigRoles {
+  matched: {
+    name: string
+    appProfile: AppData
+    role: IamRole
+  }[]
+  unmatched: {
+    name: string
+    reason: string
+  }[]
 }
 
 export interface UserConfig {
   user: UserData['custom']
   extension: ExtensionSettings
 }
+
+export interface ExtensionBackup {
+  format: string
+  version: number
+  // storage migrations the data has been through
+  schemaVersion: number
+  extensionVersion: string
+  createdAt: number
+  data: ExtensionData & { baseline?: Baseline | null }
+}
+
+export interface EncryptedConfig {
+  format: string
+  version: number
+  iterations: number
+  salt: string
+  iv: string
+  data: string
+}
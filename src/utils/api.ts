@@ -1,7 +1,22 @@
 import { RateLimit, Sema } from 'async-sema';
 import fetchRetry from 'fetch-retry';
 import extension from '../extension';
-import { ApiData } from '../types';
+import {
+  ApiData, AppData, AwsPartition, ProfileData, SyncErrorCategory, SyncStatus, UserData,
+} from '../types';
+
+export class ApiError extends Error {
+  category: SyncErrorCategory;
+
+  status?: number;
+
+  constructor(message: string, category: SyncErrorCategory, status?: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ApiError';
+    this.category = category;
+    this.status = status;
+  }
+}
 
 function getCookie(name) {
   const cookies = Object.fromEntries(
@@ -45,9 +60,9 @@ const fetchWithRetry = fetchRetry(fetch);
 
 export default async function api<ResponseType = ApiData>(path: string): Promise<ResponseType> {
   extension.log(`aws-sso:api:${path}`);
-  const token = getToken()
+  const token = getToken();
   if (!token) {
-    throw new Error('No SSO token found');
+    throw new ApiError('No SSO token found', 'no-token');
   }
   return fetchWithRetry(`${extension.ssoUrl}${path}`, {
     retries: MAXIMUM_RETRIES,
@@ -55,10 +70,110 @@ export default async function api<ResponseType = ApiData>(path: string): Promise
     retryDelay: (n) => BACKOFF_FACTOR ** n * BACKOFF_DELAY_IN_MS,
 
     // Retries on 429 (throttled) and 5xx errors
-    retryOn: (_, __, res) => !!(res && (res.status === 429 || res.status >= 500)),
+    // fetch-retry ignores `retries` once retryOn is a function, count attempts here
+    retryOn: (attempt, __, res) => attempt < MAXIMUM_RETRIES
+      && !!(res && (res.status === 429 || res.status >= 500)),
     headers: { 'x-amz-sso_bearer_token': token },
   }).then(async (response) => {
-    extension.log(`aws-sso:api:${path}:results`);
-    return response.json() as ResponseType;
+    extension.log(`aws-sso:api:${path}:results:${response.status}`);
+    if (!response.ok) {
+      extension.log(`aws-sso:api:${path}:${response.status}`, 'warn');
+    }
+    if (response.status === 429) {
+      throw new ApiError(`Throttled by the SSO portal after ${MAXIMUM_RETRIES} retries`, 'throttled', 429);
+    }
+    if (!response.ok) {
+      throw new ApiError(`SSO portal responded ${response.status} to ${path}`, 'http', response.status);
+    }
+    return response.json().catch((err) => {
+      throw new ApiError(`Unreadable SSO portal response to ${path}`, 'parse', response.status, { cause: err });
+    }) as ResponseType;
   });
 }
+
+function listResult<T>(path: string, data: ApiData): T[] {
+  if (!Array.isArray(data?.result)) {
+    throw new ApiError(`Unexpected SSO portal response to ${path}`, 'parse');
+  }
+  return data.result as T[];
+}
+
+async function getUserData(): Promise<UserData> {
+  await RateLimiter();
+  await Semaphore.acquire();
+  return (api('/user') as unknown as Promise<UserData>).finally(() => { Semaphore.release(); });
+}
+
+async function getApps(): Promise<AppData[]> {
+  await RateLimiter();
+  await Semaphore.acquire();
+  return api('/instance/appinstances').then(
+    (data) => listResult<AppData>('/instance/appinstances', data),
+  ).finally(() => { Semaphore.release(); });
+}
+
+async function getAppProfiles(app: AppData): Promise<ProfileData[]> {
+  await RateLimiter();
+  await Semaphore.acquire();
+  const path = `/instance/appinstance/${app.id}/profiles`;
+  return api(path).then(
+    (data) => listResult<ProfileData>(path, data),
+  ).finally(() => { Semaphore.release(); });
+}
+
+export function syncError(err: unknown): SyncStatus['error'] {
+  if (err instanceof ApiError) {
+    return { category: err.category, message: err.message, status: err.status };
+  }
+  return { category: 'unknown', message: err instanceof Error ? err.message : String(err) };
+}
+
+export async function recordSyncFailure(err: unknown, portalUrl = ''): Promise<void> {
+  extension.log('aws-sso:sync:failed', 'error', err);
+  const status = await extension.loadSyncStatus();
+  await extension.saveSyncStatus({
+    ...status,
+    state: 'failed',
+    portalUrl: portalUrl || status.portalUrl,
+    lastFailureAt: Date.now(),
+    error: syncError(err),
+  });
+}
+
+// getUserData > getApps > getAppProfiles > saveData
+export async function syncPortal(
+  region: string,
+  partition: AwsPartition,
+  signedIn: boolean,
+  portalUrl = '',
+): Promise<UserData> {
+  const status = await extension.loadSyncStatus();
+  status.state = 'syncing';
+  status.portalUrl = portalUrl || status.portalUrl;
+  status.startedAt = Date.now();
+  status.progress = { apps: 0, appsTotal: 0, profiles: 0 };
+  await extension.saveSyncStatus(status);
+  try {
+    const user = await getUserData();
+    const apps = await getApps();
+    status.progress.appsTotal = apps.length;
+    await extension.saveSyncStatus(status);
+    await Promise.all(apps.map((app) => getAppProfiles(app).then((appProfiles) => {
+      const appWithProfiles = app;
+      appWithProfiles.profiles = appProfiles;
+      extension.apps.push(appWithProfiles);
+      status.progress.apps += 1;
+      status.progress.profiles += appProfiles.length;
+      return extension.saveSyncStatus(status);
+    })));
+    await extension.update({ ...user, ssoRegion: region, partition });
+    await extension.startPortalSession(user.userId, signedIn);
+    extension.loaded = true;
+    await extension.saveSyncStatus({ ...status, state: 'success', lastSuccessAt: Date.now() });
+    extension.log(`aws-sso:sync:${apps.length}:apps:${status.progress.profiles}:profiles`, 'info');
+    return user;
+  } catch (err) {
+    await recordSyncFailure(err, status.portalUrl);
+    throw err;
+  }
+}
@@ -0,0 +1,234 @@
+import { UserConfig } from '../types';
+
+/* user config schema, validation with paths & section diffs for imports */
+
+export type Schema =
+  | { type: 'string' | 'number' | 'boolean', nullable?: boolean, optional?: boolean, enum?: unknown[] }
+  | { type: 'object', properties: Record<string, Schema>, nullable?: boolean, optional?: boolean }
+  | { type: 'record', values: Schema, optional?: boolean }
+  | { type: 'array', items: Schema, optional?: boolean };
+
+export interface ConfigChange {
+  // top level of user or extension, e.g. user.profiles
+  section: string
+  path: string
+  before: unknown
+  after: unknown
+}
+
+const str = (opts = {}): Schema => ({ type: 'string', ...opts });
+const num = (opts = {}): Schema => ({ type: 'number', ...opts });
+const bool = (opts = {}): Schema => ({ type: 'boolean', ...opts });
+const optional = { optional: true };
+const nullable = { optional: true, nullable: true };
+
+const bookmarkSchema: Schema = {
+  type: 'object',
+  properties: { label: str(), url: str() },
+};
+
+const iamRoleSchema: Schema = {
+  type: 'object',
+  properties: {
+    profileId: str(),
+    accountId: str(),
+    roleName: str(),
+    label: str(),
+    color: str(),
+    destination: str(nullable),
+    bookmarks: { type: 'array', items: bookmarkSchema, optional: true },
+    sourceRole: {
+      type: 'object',
+      properties: { accountId: str(), roleName: str() },
+      ...nullable,
+    },
+    baseline: bool(optional),
+  },
+};
+
+const customDataSchema: Schema = {
+  type: 'object',
+  properties: {
+    favorite: bool(optional),
+    hide: bool(optional),
+    icon: str(nullable),
+    label: str(nullable),
+    destination: str(nullable),
+    region: str(nullable),
+    color: str(),
+    iamRoles: { type: 'array', items: iamRoleSchema },
+    bookmarks: { type: 'array', items: bookmarkSchema, optional: true },
+    tags: { type: 'array', items: str(), optional: true },
+    protected: bool(optional),
+    sessionHours: num(nullable),
+  },
+};
+
+const ruleSchema: Schema = {
+  type: 'object',
+  properties: {
+    field: str({ enum: ['accountName', 'accountId', 'role', 'tag'] }),
+    match: str({ enum: ['equals', 'contains', 'regex'] }),
+    value: str(),
+    color: str(nullable),
+    labelPrefix: str(nullable),
+  },
+};
+
+const customSchema: Schema = {
+  type: 'object',
+  properties: {
+    accounts: { type: 'record', values: customDataSchema },
+    accountsOverride: bool(),
+    displayName: str(),
+    sessionLabelSso: str(),
+    sessionLabelIam: str(),
+    colorDefault: str(),
+    colorFooter: bool(),
+    cliProfileName: str(optional),
+    colorHeader: bool(),
+    labelFooter: bool(),
+    labelHeader: bool(),
+    labelIcon: bool(),
+    profiles: { type: 'record', values: customDataSchema },
+    rules: { type: 'array', items: ruleSchema, optional: true },
+    sessionHours: { type: 'record', values: num(), optional: true },
+    hotkeys: {
+      type: 'object',
+      properties: { openProfile1: str(), openProfile2: str(), openProfile3: str() },
+    },
+  },
+};
+
+const settingsSchema: Schema = {
+  type: 'object',
+  properties: {
+    copyLinkButton: bool(optional),
+    defaultUser: str(),
+    enableSync: bool(),
+    firefoxContainers: bool(optional),
+    firefoxResumeContainer: bool(),
+    firefoxExpireMinsContainer: num(),
+    iconColor: str(),
+    lastUserId: str(nullable),
+    lastProfileId: str(nullable),
+    navCurrentTab: bool(),
+    showReleaseNotes: bool(),
+    showAllProfiles: bool(),
+    tableSettings: {
+      type: 'object',
+      properties: {
+        showAllUsers: bool(),
+        showIamRoles: bool(),
+        showIcon: bool(),
+        sortCustom: bool(),
+        // false or the direction, true before directions existed
+        sortApp: { type: 'string', enum: [false, true, 'asc', 'desc', 'ascNum', 'descNum'] },
+        sortProfile: { type: 'string', enum: [false, true, 'asc', 'desc'] },
+        groupTag: str(nullable),
+      },
+    },
+  },
+};
+
+const userConfigSchema: Schema = {
+  type: 'object',
+  properties: { user: customSchema, extension: settingsSchema },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) { return 'null'; }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function validate(value: unknown, schema: Schema, path = ''): string[] {
+  const at = path || 'config';
+  if (value === undefined) {
+    return schema.optional ? [] : [`${at}: missing`];
+  }
+  if (value === null) {
+    return 'nullable' in schema && schema.nullable ? [] : [`${at}: expected ${schema.type}, got null`];
+  }
+  if ('enum' in schema && schema.enum) {
+    return schema.enum.includes(value) ? [] : [`${at}: expected one of ${schema.enum.join(', ')}`];
+  }
+  const expected = schema.type === 'record' ? 'object' : schema.type;
+  if (typeOf(value) !== expected) {
+    return [`${at}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+  if (schema.type === 'array') {
+    return (value as unknown[]).flatMap((item, idx) => validate(item, schema.items, `${path}[${idx}]`));
+  }
+  if (schema.type === 'record') {
+    return Object.entries(value as object)
+      .filter(([key]) => key !== 'updatedAt')
+      .flatMap(([key, item]) => validate(item, schema.values, path ? `${path}.${key}` : key));
+  }
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    // unknown keys are usually typos, updatedAt is added on save
+    const unknown = Object.keys(record)
+      .filter((key) => !(key in schema.properties) && key !== 'updatedAt')
+      .map((key) => `${path ? `${path}.${key}` : key}: unknown key`);
+    return [
+      ...unknown,
+      ...Object.entries(schema.properties).flatMap(
+        ([key, prop]) => validate(record[key], prop, path ? `${path}.${key}` : key),
+      ),
+    ];
+  }
+  return [];
+}
+
+function validateUserConfig(config: unknown): string[] {
+  return validate(config, userConfigSchema);
+}
+
+function flatten(value: unknown, path: string, leaves: Record<string, unknown>): Record<string, unknown> {
+  if (typeof value === 'object' && value !== null && Object.keys(value).length > 0) {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key !== 'updatedAt') {
+        flatten(item, Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`, leaves);
+      }
+    });
+  } else {
+    // eslint-disable-next-line no-param-reassign
+    leaves[path] = value;
+  }
+  return leaves;
+}
+
+function diffConfig(current: UserConfig, config: UserConfig): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  (['user', 'extension'] as const).forEach((top) => {
+    const before = flatten(current[top], top, {});
+    const after = flatten(config[top], top, {});
+    [...new Set([...Object.keys(before), ...Object.keys(after)])].forEach((path) => {
+      if (JSON.stringify(before[path]) !== JSON.stringify(after[path])) {
+        changes.push({
+          section: path.split(/[.[]/).slice(0, 2).join('.'),
+          path,
+          before: before[path],
+          after: after[path],
+        });
+      }
+    });
+  });
+  return changes;
+}
+
+function applySections(current: UserConfig, config: UserConfig, sections: string[]): UserConfig {
+  // unselected sections keep the current values
+  const applied: UserConfig = JSON.parse(JSON.stringify({ user: current.user, extension: current.extension }));
+  sections.forEach((section) => {
+    const [top, key] = section.split('.') as ['user' | 'extension', string];
+    if (key in config[top]) {
+      applied[top][key] = JSON.parse(JSON.stringify(config[top][key]));
+    } else {
+      delete applied[top][key];
+    }
+  });
+  return applied;
+}
+
+export { applySections, diffConfig, validateUserConfig };
@@ -68,9 +68,11 @@ async function createFirefoxContainer(details) {
   let label;
   // if pending iam login, use iam label
   if (ap!.profile.id in data.iamLogins) {
-    const role: IamRole = data.iamLogins[ap!.profile.id];
+    const login: IamRole = data.iamLogins[ap!.profile.id];
+    // chained logins name the container after the last hop
+    const role = login.chain?.at(-1) || login;
     if (role.profileId === ap!.profile.id) {
-      const iamContainerName = extension.buildLabel(
+      const iamContainerName = extension.prefixLabel(extension.buildLabel(
         user.custom.sessionLabelIam,
         user.custom.displayName || user.subject,
         ap?.profile.custom?.label || ap?.profile.name,
@@ -78,14 +80,14 @@ async function createFirefoxContainer(details) {
         role.accountId,
         ap?.searchMetadata?.AccountName,
         user.custom.accounts,
-      );
+      ), user, ap!, role);
       extension.log('iamContainerName');
       extension.log(iamContainerName);
       label = iamContainerName;
     }
   } else {
     // use sso label
-    label = extension.buildLabel(
+    label = extension.prefixLabel(extension.buildLabel(
       user.custom.sessionLabelSso,
       user!.custom.displayName || user!.subject,
       ap?.profile.custom?.label || ap?.profile.name,
@@ -93,7 +95,7 @@ async function createFirefoxContainer(details) {
       accountNumber,
       ap?.searchMetadata?.AccountName,
       user.custom.accounts,
-    );
+    ), user, ap!);
   }
   extension.log('label');
   extension.log(label);
@@ -118,8 +120,9 @@ async function createFirefoxContainer(details) {
       if (object.signInToken) {
         let { destination } = object;
         if (!destination) {
-          // TODO does this need multilang or multiregion support?
-          destination = 'https://console.aws.amazon.com';
+          // console of the partition signing in
+          const partition = extension.partitionFromUrl(object.signInFederationLocation);
+          destination = `https://${extension.partitionHosts(partition).console}`;
         }
         let container;
         const url = `${object.signInFederationLocation}?Action=login&SigninToken=${object.signInToken}&Issuer=${encodeURIComponent(details.originUrl)}&Destination=${encodeURIComponent(destination)}`;
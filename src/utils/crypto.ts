@@ -0,0 +1,80 @@
+import { EncryptedConfig } from '../types';
+
+/* passphrase encryption for exported configs, pbkdf2 key & aes-gcm */
+
+const ENCRYPTED_FORMAT = 'aws-sso-extender-encrypted';
+const ENCRYPTED_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+// files carry their own iteration count, bounded so a crafted file can't stall or weaken decryption
+const PBKDF2_MAX_ITERATIONS = PBKDF2_ITERATIONS * 10;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''));
+}
+
+function fromBase64(str: string): Uint8Array {
+  return Uint8Array.from(atob(str), (c) => c.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2', salt, iterations, hash: 'SHA-256',
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+function isEncrypted(data: unknown): data is EncryptedConfig {
+  return typeof data === 'object' && data !== null
+    && (data as EncryptedConfig).format === ENCRYPTED_FORMAT;
+}
+
+async function encrypt(data: unknown, passphrase: string): Promise<EncryptedConfig> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(data)),
+  );
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(cipher)),
+  };
+}
+
+async function decrypt(encrypted: EncryptedConfig, passphrase: string): Promise<unknown> {
+  if (encrypted.format !== ENCRYPTED_FORMAT || encrypted.version !== ENCRYPTED_VERSION) {
+    throw new Error(`Unsupported encrypted config ${encrypted.format} v${encrypted.version}`);
+  }
+  const { iterations } = encrypted;
+  if (!Number.isInteger(iterations) || iterations < PBKDF2_ITERATIONS || iterations > PBKDF2_MAX_ITERATIONS) {
+    throw new Error(`Unsupported encrypted config iterations ${iterations}`);
+  }
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt), iterations);
+  // aes-gcm rejects a wrong passphrase or modified data
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.data),
+  );
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+export { isEncrypted, encrypt, decrypt };
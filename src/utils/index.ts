@@ -1,5 +1,8 @@
 import extension from '../extension';
 import { createFirefoxContainer, listenConsole } from './container';
+import {
+  highlight, parseSearch, scoreProfile, scoreText,
+} from './search';
 
 function waitForElement<TElement extends Element = HTMLElement>(
   selector: string,
@@ -51,6 +54,13 @@ function getFontColor(hexcolor): 'black' | 'white' {
   return (yiq >= 180) ? 'black' : 'white';
 }
 
+function confirmProtected(label: string): boolean {
+  // pages only, background launches open the popup to confirm instead
+  // eslint-disable-next-line no-alert
+  return window.confirm(`${label} is protected.\n\nOpen the AWS console anyway?`);
+}
+
 export {
-  waitForElement, createFirefoxContainer, getFontColor, listenConsole,
+  waitForElement, createFirefoxContainer, confirmProtected, getFontColor, listenConsole,
+  highlight, parseSearch, scoreProfile, scoreText,
 };
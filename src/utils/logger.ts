@@ -0,0 +1,90 @@
+import type { LogEntry, LogLevel } from '../types';
+
+/* structured log entries, redacted before they are stored or exported */
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// serialized data kept per entry
+const LOG_DATA_CHARS = 2000;
+const LOG_DEPTH = 6;
+
+const SECRET_KEYS = /(token|secret|password|passphrase|cookie|authorization|credentials?|x-amz-sso_authn)$/i;
+const PERSONAL_KEYS = /^(email|subject|username|accountemail|displayname)$/i;
+const EMAILS = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const JWTS = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const SECRET_PARAMS = /((?:token|x-amz-sso_authn|code|state)=)[^&\s;"]+/gi;
+
+export function redactText(text: string): string {
+  return text
+    .replace(JWTS, '[token]')
+    .replace(SECRET_PARAMS, '$1[redacted]')
+    .replace(EMAILS, '[email]');
+}
+
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return typeof value === 'function' ? undefined : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (seen.has(value) || depth >= LOG_DEPTH) {
+    return '[…]';
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((v) => redact(v, depth + 1, seen));
+  }
+  // class instances, e.g. the extension or browser apis, are named only
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    return `[${proto.constructor?.name || 'object'}]`;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => {
+    if (SECRET_KEYS.test(key) || (PERSONAL_KEYS.test(key) && typeof v === 'string' && v !== '')) {
+      return [key, '[redacted]'];
+    }
+    return [key, redact(v, depth + 1, seen)];
+  }));
+}
+
+export function logContext(): string {
+  // extension pages by name, content scripts by host
+  const { location } = globalThis;
+  if (!location) {
+    return 'background';
+  }
+  if (!location.protocol.endsWith('-extension:')) {
+    return location.hostname;
+  }
+  return location.pathname.match(/(?<page>popup|options|devtools)\.html$/)?.groups?.page || 'background';
+}
+
+export function logEntry(v: unknown, level: LogLevel, context: string, data?: unknown): LogEntry {
+  const entry: LogEntry = {
+    at: Date.now(),
+    level,
+    context,
+    message: typeof v === 'string' ? redactText(v) : '',
+  };
+  const details = typeof v === 'string' ? data : v;
+  if (details !== undefined) {
+    const json = JSON.stringify(redact(details)) ?? String(details);
+    entry.data = json.length > LOG_DATA_CHARS ? `${json.slice(0, LOG_DATA_CHARS)}…` : json;
+  }
+  return entry;
+}
+
+export function filterLog(
+  entries: LogEntry[],
+  filters: { level: LogLevel, context: string, search: string },
+): LogEntry[] {
+  const minLevel = LOG_LEVELS.indexOf(filters.level);
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter((entry) => LOG_LEVELS.indexOf(entry.level) >= minLevel
+    && (filters.context === '' || entry.context === filters.context)
+    && (search === '' || `${entry.message} ${entry.data || ''}`.toLowerCase().includes(search)));
+}
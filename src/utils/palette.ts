@@ -0,0 +1,137 @@
+import { rankTargets } from './search';
+import { ProfileTarget } from '../types';
+
+/* keyboard command palette injected into AWS console pages */
+
+/* eslint-disable no-unused-vars */
+export interface PaletteActions {
+  open: (item: ProfileTarget, newTab: boolean) => void
+  copyLink: (item: ProfileTarget) => void
+}
+/* eslint-enable no-unused-vars */
+
+const PALETTE_ID = 'awsSsoExtenderPalette';
+const MAX_RESULTS = 50;
+
+const styles = `
+  .backdrop { position: fixed; inset: 0; z-index: 2147483647; background: rgba(0, 0, 0, .3); }
+  .palette {
+    position: fixed; top: 15%; left: 50%; transform: translateX(-50%); width: 600px; max-width: 90vw;
+    background: white; border-radius: 6px; box-shadow: 0 8px 24px rgba(0, 0, 0, .3);
+    font: 14px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  }
+  input { width: 100%; box-sizing: border-box; padding: 12px; border: 0; border-bottom: 1px solid #dee2e6; font: inherit; outline: none; }
+  ul { list-style: none; margin: 0; padding: 0; max-height: 360px; overflow-y: auto; }
+  li { display: flex; align-items: center; padding: 6px 12px; cursor: pointer; }
+  li.selected { background: #f3f5fb; }
+  .swatch { width: 10px; height: 28px; border-radius: 2px; margin-right: 10px; flex-shrink: 0; }
+  .text { flex-grow: 1; overflow: hidden; }
+  .label, .detail { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .detail { font-size: 12px; color: grey; }
+  button { margin-left: 6px; padding: 2px 8px; border: 1px solid #ced4da; border-radius: 4px; background: white; font-size: 12px; cursor: pointer; visibility: hidden; }
+  li.selected button { visibility: visible; }
+  button:hover { background: #eeeeee; }
+  .help { padding: 6px 12px; font-size: 11px; color: grey; border-top: 1px solid #dee2e6; }
+`;
+
+function closePalette(): boolean {
+  const host = document.getElementById(PALETTE_ID);
+  if (host) { host.remove(); }
+  return host !== null;
+}
+
+function openPalette(items: ProfileTarget[], actions: PaletteActions): void {
+  // the hotkey toggles the palette
+  if (closePalette()) { return; }
+  const host = document.createElement('div');
+  host.id = PALETTE_ID;
+  // isolate from console styles
+  const root = host.attachShadow({ mode: 'open' });
+  root.innerHTML = `<style>${styles}</style>
+    <div class="backdrop">
+      <div class="palette">
+        <input placeholder="Search profiles & IAM roles" spellcheck="false">
+        <ul></ul>
+        <div class="help">Enter open · Shift+Enter new tab · Alt+C copy link · Esc close</div>
+      </div>
+    </div>`;
+  const backdrop = root.querySelector<HTMLElement>('.backdrop')!;
+  const input = root.querySelector<HTMLInputElement>('input')!;
+  const list = root.querySelector<HTMLElement>('ul')!;
+  let results: ProfileTarget[] = [];
+  let selected = 0;
+
+  const run = (action: () => void) => {
+    closePalette();
+    action();
+  };
+
+  const render = () => {
+    list.replaceChildren(...results.map((item, idx) => {
+      const li = document.createElement('li');
+      li.className = idx === selected ? 'selected' : '';
+      li.innerHTML = `<div class="swatch"></div>
+        <div class="text"><div class="label"></div><div class="detail"></div></div>
+        <button data-action="open">Open</button>
+        <button data-action="newTab">New Tab</button>
+        <button data-action="copyLink">Copy Link</button>`;
+      li.querySelector<HTMLElement>('.swatch')!.style.backgroundColor = `#${item.color}`;
+      li.querySelector('.label')!.textContent = item.label;
+      li.querySelector('.detail')!.textContent = item.detail;
+      li.addEventListener('mouseenter', () => {
+        if (selected !== idx) {
+          selected = idx;
+          render();
+        }
+      });
+      li.addEventListener('click', (event) => {
+        const action = (event.target as HTMLElement).dataset.action;
+        if (action === 'copyLink') {
+          run(() => actions.copyLink(item));
+        } else {
+          run(() => actions.open(item, action === 'newTab'));
+        }
+      });
+      return li;
+    }));
+    list.children[selected]?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const search = () => {
+    results = rankTargets(items, input.value).slice(0, MAX_RESULTS);
+    selected = 0;
+    render();
+  };
+
+  input.addEventListener('input', search);
+  input.addEventListener('keydown', (event) => {
+    // keep console hotkeys from firing while typing
+    event.stopPropagation();
+    const item = results[selected];
+    // escape or the alt+shift+p hotkey again
+    if (event.key === 'Escape' || (event.altKey && event.shiftKey && event.code === 'KeyP')) {
+      event.preventDefault();
+      closePalette();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      selected = Math.min(Math.max(selected + step, 0), results.length - 1);
+      render();
+    } else if (event.key === 'Enter' && item) {
+      event.preventDefault();
+      run(() => actions.open(item, event.shiftKey));
+    } else if (event.altKey && event.code === 'KeyC' && item) {
+      event.preventDefault();
+      run(() => actions.copyLink(item));
+    }
+  });
+  backdrop.addEventListener('click', (event) => {
+    if (event.target === backdrop) { closePalette(); }
+  });
+
+  document.body.appendChild(host);
+  search();
+  input.focus();
+}
+
+export { openPalette, closePalette };
@@ -0,0 +1,173 @@
+import { AppData, CustomData, ProfileTarget } from '../types';
+
+/* ranked fuzzy search for the profile table */
+
+export interface SearchTerm {
+  qualifier: 'acct' | 'role' | 'email' | 'tag' | 'is' | null
+  value: string
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+const QUALIFIERS = ['acct', 'role', 'email', 'tag', 'is'];
+
+function parseSearch(search: string): SearchTerm[] {
+  return search
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((token) => token !== '')
+    .map((token) => {
+      const [qualifier, ...value] = token.split(':');
+      // unknown qualifiers or urls are searched as plain text
+      if (value.length > 0 && value.join(':') !== '' && QUALIFIERS.includes(qualifier)) {
+        return { qualifier, value: value.join(':') } as SearchTerm;
+      }
+      return { qualifier: null, value: token };
+    });
+}
+
+// indexes of term characters found in order, e.g. 'adm' in 'AdministratorAccess'
+function fuzzyMatch(term: string, text: string): number[] | null {
+  const idxs: number[] = [];
+  let pos = 0;
+  for (let i = 0; i < term.length; i += 1) {
+    pos = text.indexOf(term[i], pos);
+    if (pos === -1) { return null; }
+    idxs.push(pos);
+    pos += 1;
+  }
+  return idxs;
+}
+
+function scoreField(term: string, field: string | null | undefined): number {
+  if (!field) { return 0; }
+  const text = field.toLowerCase();
+  const idx = text.indexOf(term);
+  if (idx === 0 && text.length === term.length) { return 100; }
+  if (idx === 0) { return 75; }
+  if (idx > 0) {
+    // word boundary, e.g. 'admin' in 'prod-admin'
+    return /[^a-z0-9]/.test(text[idx - 1]) ? 60 : 40;
+  }
+  // short terms match too many fields when fuzzy
+  const idxs = term.length >= 3 ? fuzzyMatch(term, text) : null;
+  if (idxs) {
+    // tighter matches rank higher
+    return Math.round(20 * (term.length / (idxs[idxs.length - 1] - idxs[0] + 1)));
+  }
+  return 0;
+}
+
+function searchFields(
+  profile: AppData,
+  qualifier: SearchTerm['qualifier'],
+  accounts: Record<string, CustomData>,
+): Array<string | null | undefined> {
+  const accountId = profile.searchMetadata?.AccountId;
+  const account = accountId ? [
+    accountId,
+    profile.searchMetadata?.AccountName,
+    accounts[accountId]?.label,
+  ] : [profile.name];
+  const role = [
+    profile.profile.name,
+    profile.profile.custom?.label,
+    ...(profile.profile.custom?.iamRoles || []).flatMap((r) => [r.roleName, r.label]),
+  ];
+  const email = [profile.searchMetadata?.AccountEmail];
+  const tags = [
+    ...(accountId ? accounts[accountId]?.tags || [] : []),
+    ...(profile.profile.custom?.tags || []),
+  ];
+  if (qualifier === 'acct') { return account; }
+  if (qualifier === 'role') { return role; }
+  if (qualifier === 'email') { return email; }
+  if (qualifier === 'tag') { return tags; }
+  return [profile.name, ...account, ...role, ...email, ...tags];
+}
+
+function matchFlag(profile: AppData, flag: string): boolean {
+  if (flag === 'fav' || flag === 'favorite') { return profile.profile.custom?.favorite === true; }
+  if (flag === 'iam') { return (profile.profile.custom?.iamRoles.length || 0) > 0; }
+  if (flag === 'hidden') { return profile.profile.custom?.hide === true; }
+  return false;
+}
+
+// every term must match a field, 0 = no match
+function scoreProfile(
+  profile: AppData,
+  terms: SearchTerm[],
+  accounts: Record<string, CustomData>,
+): number {
+  let score = terms.length === 0 ? 1 : 0;
+  for (let i = 0; i < terms.length; i += 1) {
+    const { qualifier, value } = terms[i];
+    const termScore = qualifier === 'is'
+      ? Number(matchFlag(profile, value))
+      : Math.max(...searchFields(profile, qualifier, accounts).map((f) => scoreField(value, f)));
+    if (termScore === 0) { return 0; }
+    score += termScore;
+  }
+  return score;
+}
+
+// scoreProfile for plain text, e.g. command palette entries
+function scoreText(fields: Array<string | null | undefined>, terms: SearchTerm[]): number {
+  let score = terms.length === 0 ? 1 : 0;
+  for (let i = 0; i < terms.length; i += 1) {
+    const termScore = Math.max(...fields.map((f) => scoreField(terms[i].value, f)));
+    if (termScore === 0) { return 0; }
+    score += termScore;
+  }
+  return score;
+}
+
+// best match first, ties keep the given order
+function rankTargets(targets: ProfileTarget[], search: string): ProfileTarget[] {
+  const terms = parseSearch(search);
+  return targets
+    .map((target) => ({
+      target,
+      score: scoreText([
+        target.label,
+        target.detail,
+        target.profile.profile.name,
+        target.profile.searchMetadata?.AccountId,
+        target.role?.roleName,
+      ], terms),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ target }) => target);
+}
+
+function highlight(text: string | null | undefined, terms: SearchTerm[]): HighlightSegment[] {
+  if (!text) { return []; }
+  const lower = text.toLowerCase();
+  const mask: boolean[] = new Array(text.length).fill(false);
+  terms.filter((t) => t.qualifier !== 'is').forEach(({ value }) => {
+    const idx = lower.indexOf(value);
+    const idxs = idx !== -1
+      ? [...Array(value.length).keys()].map((i) => idx + i)
+      : (value.length >= 3 && fuzzyMatch(value, lower)) || [];
+    idxs.forEach((i) => { mask[i] = true; });
+  });
+  const segments: HighlightSegment[] = [];
+  mask.forEach((match, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match });
+    }
+  });
+  return segments;
+}
+
+export {
+  parseSearch, scoreProfile, scoreText, rankTargets, highlight,
+};
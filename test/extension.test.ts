@@ -0,0 +1,320 @@
+import {
+  beforeEach, describe, expect, it, vi,
+} from 'vitest';
+import extension from '../src/extension';
+import type {
+  Baseline, ExtensionSettings, IamRole, UserData,
+} from '../src/types';
+import { encrypt } from '../src/utils/crypto';
+import { fakeBrowser } from './fakes/browser';
+import {
+  awsAccount, portalApps, portalProfiles, portalUser, profile,
+} from './fixtures';
+
+const { name } = extension.config;
+const { local, sync } = fakeBrowser.storage;
+
+async function seedUser(user: Partial<UserData> = portalUser, apps = portalApps, profiles = portalProfiles) {
+  // what the portal sync leaves behind
+  extension.apps = apps.map((app) => ({ ...app, profiles: profiles[app.id] }));
+  await extension.update(user as UserData);
+  extension.apps = [];
+}
+
+function bigAccounts(count: number): UserData['custom']['accounts'] {
+  return Object.fromEntries([...Array(count).keys()].map((i) => [
+    String(i).padStart(12, '0'),
+    { label: `account ${i} `.repeat(5), color: 'ff9900', iamRoles: [] },
+  ]));
+}
+
+beforeEach(() => {
+  extension.apps = [];
+  extension.baseline = null;
+});
+
+describe('load & save', () => {
+  it('round trips users, app profiles & customizations through sync storage', async () => {
+    await seedUser();
+    let data = await extension.loadData();
+    expect(data.users.map((u) => u.userId)).toEqual(['user-1']);
+    expect(data.appProfiles.map((ap) => ap.profile.id).sort())
+      .toEqual(['p-prod-admin', 'p-prod-read', 'p-slack', 'p-stage-admin']);
+
+    const [user] = data.users;
+    user.custom.displayName = 'Jane';
+    user.custom.profiles['p-prod-admin'] = {
+      ...extension.defaultProfileCustom(user), label: 'prod admin', favorite: true,
+    };
+    await extension.saveUser(user, true);
+
+    data = await extension.loadData();
+    expect(data.users[0].custom.displayName).toBe('Jane');
+    expect(data.users[0].custom.profiles['p-prod-admin']).toMatchObject({ label: 'prod admin', favorite: true });
+    expect(sync.items).toHaveProperty(`${name}-custom-user-1`);
+  });
+
+  it('keeps user data in local storage when sync is disabled', async () => {
+    await extension.saveSettings({ ...extension.defaultSettings, enableSync: false } as unknown as ExtensionSettings);
+    await seedUser();
+    expect(local.items).toHaveProperty(`${name}-user-user-1`);
+    expect(sync.items).not.toHaveProperty(`${name}-user-user-1`);
+    // the users index always syncs
+    expect(sync.items).toHaveProperty(`${name}-users`);
+    expect((await extension.loadData()).users[0].userId).toBe('user-1');
+  });
+
+  it('fills in missing settings with defaults', async () => {
+    await sync.set({ [`${name}-settings`]: JSON.stringify({ iconColor: 'blue' }) });
+    const settings = await extension.loadSettings();
+    expect(settings.iconColor).toBe('blue');
+    expect(settings.tableSettings).toEqual(extension.defaultSettings.tableSettings);
+  });
+
+  it('quarantines malformed records instead of failing to load', async () => {
+    await seedUser();
+    await sync.set({ [`${name}-custom-user-1`]: '{not json' });
+    const [user] = (await extension.loadData()).users;
+    expect(user.custom.displayName).toBe('');
+    // left for the browser that wrote it
+    expect(sync.items).toHaveProperty(`${name}-custom-user-1`, '{not json');
+    expect(JSON.parse(local.items[`${name}-quarantine`] as string))
+      .toHaveProperty([`${name}-custom-user-1`, 'raw'], '{not json');
+  });
+
+  it('keeps the sync chunks of a partially synced record', async () => {
+    await seedUser();
+    const [user] = (await extension.loadData()).users;
+    user.custom.accounts = bigAccounts(100);
+    await extension.saveUser(user, true);
+    await sync.remove(`${name}-custom-user-1-chunk-1`);
+    expect((await extension.loadData()).users[0].custom.accounts).toEqual({});
+    expect(sync.items).toHaveProperty(`${name}-custom-user-1`);
+    expect(sync.items).toHaveProperty(`${name}-custom-user-1-chunk-0`);
+  });
+
+  it('splits customizations larger than a sync item into chunks', async () => {
+    await seedUser();
+    const [user] = (await extension.loadData()).users;
+    user.custom.accounts = bigAccounts(100);
+    await extension.saveUser(user, true);
+    expect(Object.keys(sync.items).filter((k) => k.startsWith(`${name}-custom-user-1-chunk-`)).length)
+      .toBeGreaterThan(1);
+    const [loaded] = (await extension.loadData()).users;
+    expect(loaded.custom.accounts).toEqual(user.custom.accounts);
+  });
+
+  it('falls back to local storage while sync is full', async () => {
+    await seedUser();
+    const filler = Object.fromEntries([...Array(12).keys()].map((i) => [`filler-${i}`, 'x'.repeat(8000)]));
+    await sync.set(filler);
+    const [user] = (await extension.loadData()).users;
+    user.custom.accounts = bigAccounts(100);
+    await extension.saveUser(user, true);
+    expect(await extension.loadSyncOverflow()).toEqual([`${name}-custom-user-1`]);
+    expect(local.items).toHaveProperty(`${name}-custom-user-1`);
+    expect((await extension.loadData()).users[0].custom.accounts).toEqual(user.custom.accounts);
+
+    // moves back once there is room again
+    await sync.remove(Object.keys(filler));
+    await extension.saveUser(user, true);
+    expect(await extension.loadSyncOverflow()).toEqual([]);
+    expect((await extension.loadData()).users[0].custom.accounts).toEqual(user.custom.accounts);
+  });
+});
+
+describe('removeUser', () => {
+  it('removes the user, its app profiles & pending iam logins', async () => {
+    await seedUser();
+    await seedUser({ ...portalUser, userId: 'user-2', subject: 'john@example.com' }, []);
+    await extension.saveSettings({
+      ...extension.defaultSettings, defaultUser: 'user-1', lastUserId: 'user-1',
+    } as unknown as ExtensionSettings);
+    const login = { profileId: 'p-prod-admin', accountId: '333333333333', roleName: 'Deploy' } as IamRole;
+    await extension.saveData(`${name}-iam-logins`, { 'p-prod-admin': login, 'p-other': login }, extension.config.browser.storage.local);
+
+    await extension.removeUser('user-1', true);
+
+    const data = await extension.loadData();
+    expect(data.users.map((u) => u.userId)).toEqual(['user-2']);
+    expect(data.appProfiles).toEqual([]);
+    expect(sync.items).not.toHaveProperty(`${name}-user-user-1`);
+    expect(sync.items).not.toHaveProperty(`${name}-custom-user-1`);
+    expect(local.items).not.toHaveProperty('p-prod-admin');
+    expect(data.iamLogins).not.toHaveProperty('p-prod-admin');
+    expect(data.iamLogins).toHaveProperty('p-other');
+    expect(data.settings.lastUserId).toBe('user-2');
+    expect(data.settings.defaultUser).toBe('lastUserId');
+  });
+});
+
+describe('portal sync changes', () => {
+  const sandbox = awsAccount('333333333333', 'sandbox');
+  // production lost read only, staging is gone & sandbox is new
+  const changedApps = [portalApps[0], sandbox, portalApps[2]];
+  const changedProfiles = {
+    ...portalProfiles,
+    'ins-111111111111': [portalProfiles['ins-111111111111'][0]],
+    [sandbox.id]: [profile('p-sandbox-admin', 'AdministratorAccess')],
+  };
+
+  async function customize() {
+    const [user] = (await extension.loadData()).users;
+    user.custom.profiles['p-stage-admin'] = { ...extension.defaultProfileCustom(user), label: 'stage' };
+    user.custom.accounts['222222222222'] = { label: 'staging!', color: '00ff00', iamRoles: [] };
+    await extension.saveUser(user, true);
+  }
+
+  it('reports nothing on the first sync', async () => {
+    await seedUser();
+    expect(await extension.loadSyncReport('user-1')).toBeNull();
+  });
+
+  it('purges removed app profiles & reports the changes', async () => {
+    await seedUser();
+    await seedUser(portalUser, changedApps, changedProfiles);
+
+    const data = await extension.loadData();
+    expect(data.users[0].appProfileIds.sort()).toEqual(['p-prod-admin', 'p-sandbox-admin', 'p-slack']);
+    expect(local.items).not.toHaveProperty('p-prod-read');
+    expect(local.items).not.toHaveProperty('p-stage-admin');
+
+    const report = await extension.loadSyncReport('user-1');
+    expect(report?.added).toEqual([expect.objectContaining({
+      profileId: 'p-sandbox-admin', kind: 'account', accountId: '333333333333',
+    })]);
+    expect(report?.removed.map((c) => [c.profileId, c.kind]).sort()).toEqual([
+      ['p-prod-read', 'role'], ['p-stage-admin', 'account'],
+    ]);
+
+    await extension.dismissSyncReport('user-1');
+    expect(await extension.loadSyncReport('user-1')).toBeNull();
+  });
+
+  it('archives customizations of removed profiles & restores them when they return', async () => {
+    await seedUser();
+    await customize();
+    await seedUser(portalUser, changedApps, changedProfiles);
+
+    let [user] = (await extension.loadData()).users;
+    expect(user.custom.profiles).not.toHaveProperty('p-stage-admin');
+    expect(user.custom.accounts).not.toHaveProperty('222222222222');
+    const archive = await extension.loadArchive('user-1');
+    expect(archive.profiles['p-stage-admin']).toMatchObject({ label: 'stage' });
+    expect(archive.accounts['222222222222']).toMatchObject({ label: 'staging!' });
+
+    await seedUser();
+    [user] = (await extension.loadData()).users;
+    expect(user.custom.profiles['p-stage-admin']).toMatchObject({ label: 'stage' });
+    expect(user.custom.profiles['p-stage-admin']).not.toHaveProperty('archivedAt');
+    expect(user.custom.accounts['222222222222']).toMatchObject({ label: 'staging!' });
+    expect(await extension.loadArchive('user-1')).toEqual({ profiles: {}, accounts: {} });
+    expect((await extension.loadSyncReport('user-1'))?.added.map((c) => c.profileId).sort())
+      .toEqual(['p-prod-read', 'p-stage-admin']);
+  });
+
+  it('keeps app profiles another user still has', async () => {
+    await seedUser();
+    await seedUser({ ...portalUser, userId: 'user-2', subject: 'john@example.com' });
+    await seedUser(portalUser, changedApps, changedProfiles);
+    expect(local.items).toHaveProperty('p-stage-admin');
+  });
+});
+
+describe('checkPermissions', () => {
+  it('grants access when any partition is granted', async () => {
+    await fakeBrowser.permissions.request({
+      origins: ['https://*.awsapps.com/start/', 'https://*.console.aws.amazon.com/*'],
+    });
+    expect(await extension.checkPermissions()).toMatchObject({ sso: true, console: true, signin: false });
+  });
+});
+
+describe('consoleDestination', () => {
+  it('falls back to the console home for malformed destinations', () => {
+    const custom = { color: '', iamRoles: [], destination: 'https://[broken' };
+    expect(extension.validDestination(custom.destination)).toBe(false);
+    expect(extension.validDestination('cloudwatch/home')).toBe(true);
+    expect(extension.validDestination('https://us-gov-west-1.console.amazonaws-us-gov.com/ec2/home')).toBe(true);
+    expect(extension.validDestination('javascript:alert(1)')).toBe(false);
+    expect(extension.validDestination('https://example.com/console/home')).toBe(false);
+    expect(extension.consoleDestination('aws', custom)).toBe('https://console.aws.amazon.com/console/home');
+  });
+});
+
+describe('matchAwsConfigRoles', () => {
+  it('keeps the iam path in role names', () => {
+    const ap = { ...awsAccount('111111111111', 'production'), profile: profile('p-prod-admin', 'AdministratorAccess') };
+    const config = `[profile sso]
+sso_account_id = 111111111111
+sso_role_name = AdministratorAccess
+
+[profile hub]
+role_arn = arn:aws:iam::222222222222:role/team/Hub
+source_profile = sso
+
+[profile admin]
+role_arn = arn:aws:iam::333333333333:role/team/ops/Admin
+source_profile = hub
+`;
+    const { matched, unmatched } = extension.matchAwsConfigRoles(config, [ap]);
+    expect(unmatched).toEqual([]);
+    expect(matched.map((m) => m.role)).toMatchObject([
+      { accountId: '222222222222', roleName: 'team/Hub', sourceRole: null },
+      { accountId: '333333333333', roleName: 'team/ops/Admin', sourceRole: { accountId: '222222222222', roleName: 'team/Hub' } },
+    ]);
+  });
+});
+
+describe('profile rules', () => {
+  it('fills default iam role colors & prefixes uncustomized labels', () => {
+    const user = { ...portalUser, custom: { ...extension.defaultCustom, accounts: {}, profiles: {} } } as UserData;
+    user.custom.rules = [{
+      field: 'role', match: 'equals', value: 'Deploy', color: 'ff0000', labelPrefix: '[DEPLOY]',
+    }];
+    user.custom.profiles['p-prod-admin'] = {
+      ...extension.defaultProfileCustom(user),
+      iamRoles: [
+        { profileId: 'p-prod-admin', accountId: '333333333333', roleName: 'Deploy', label: '', color: '222f3e' },
+        { profileId: 'p-prod-admin', accountId: '333333333333', roleName: 'Deploy', label: 'mine', color: '00ff00' },
+      ],
+    };
+    const ap = { ...awsAccount('111111111111', 'production'), profile: profile('p-prod-admin', 'AdministratorAccess') };
+    const [customized] = extension.customizeProfiles(user, [ap]);
+    const [defaultRole, customRole] = customized.profile.custom!.iamRoles;
+    expect(defaultRole.color).toBe('ff0000');
+    expect(customRole.color).toBe('00ff00');
+    expect(extension.prefixLabel('Deploy', user, customized, defaultRole)).toBe('[DEPLOY] Deploy');
+    expect(extension.prefixLabel('mine', user, customized, customRole)).toBe('mine');
+  });
+});
+
+describe('unlockConfig', () => {
+  it('decrypts exports & rejects tampered key derivation', async () => {
+    const encrypted = await encrypt({ user: 'config' }, 'secret');
+    await expect(extension.unlockConfig(encrypted, 'secret')).resolves.toEqual({ user: 'config' });
+    await expect(extension.unlockConfig({ ...encrypted, iterations: 1 }, 'secret')).rejects.toThrow();
+    await expect(extension.unlockConfig({ ...encrypted, iterations: 1e12 }, 'secret')).rejects.toThrow();
+    await expect(extension.unlockConfig({ ...encrypted, version: 2 }, 'secret')).rejects.toThrow();
+  });
+});
+
+describe('restoreBackup', () => {
+  it('leaves storage untouched when a backup fails validation', async () => {
+    await seedUser();
+    const backup = await extension.createBackup();
+    backup.data.baseline = { name: 'broken', accounts: [] } as unknown as Baseline;
+    await expect(extension.restoreBackup(backup, 'replace')).rejects.toThrow();
+    expect(sync.items).toHaveProperty(`${name}-user-user-1`);
+  });
+
+  it('puts back the previous storage when a write fails', async () => {
+    await seedUser();
+    const before = structuredClone(sync.items);
+    const backup = await extension.createBackup();
+    const saveUser = vi.spyOn(extension, 'saveUser').mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+    await expect(extension.restoreBackup(backup, 'replace')).rejects.toThrow('QUOTA_BYTES');
+    saveUser.mockRestore();
+    expect(sync.items).toEqual(before);
+  });
+});
@@ -0,0 +1,252 @@
+import type { Browser } from 'webextension-polyfill';
+
+/* in-memory stand-in for the webextension-polyfill surface the extension uses */
+
+/* eslint-disable no-unused-vars */
+type Listener = (...args: any[]) => unknown;
+
+export interface FakeEvent {
+  addListener(cb: Listener): void
+  removeListener(cb: Listener): void
+  hasListener(cb: Listener): boolean
+  emit(...args: unknown[]): void
+}
+/* eslint-enable no-unused-vars */
+
+export interface StorageQuota {
+  QUOTA_BYTES: number
+  QUOTA_BYTES_PER_ITEM: number
+  MAX_ITEMS: number
+}
+
+// chrome & firefox storage.sync limits
+export const SYNC_QUOTA: StorageQuota = {
+  QUOTA_BYTES: 102400,
+  QUOTA_BYTES_PER_ITEM: 8192,
+  MAX_ITEMS: 512,
+};
+
+function fakeEvent(): FakeEvent {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: (cb) => { listeners.add(cb); },
+    removeListener: (cb) => { listeners.delete(cb); },
+    hasListener: (cb) => listeners.has(cb),
+    emit: (...args) => { listeners.forEach((cb) => cb(...args)); },
+  };
+}
+
+function itemBytes(key: string, value: unknown): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+export class FakeStorageArea {
+  items: Record<string, unknown> = {};
+
+  onChanged = fakeEvent();
+
+  /* eslint-disable no-unused-vars */
+  constructor(
+    readonly areaName: 'local' | 'sync',
+    private readonly changed: FakeEvent,
+    private readonly quota: StorageQuota | null = null,
+  ) {}
+  /* eslint-enable no-unused-vars */
+
+  async get(keys?: null | string | string[] | Record<string, unknown>): Promise<Record<string, unknown>> {
+    if (keys === null || keys === undefined) {
+      return structuredClone(this.items);
+    }
+    const defaults = typeof keys === 'object' && !Array.isArray(keys) ? keys : {};
+    const names = typeof keys === 'string' ? [keys] : Object.keys(defaults).concat(Array.isArray(keys) ? keys : []);
+    const result: Record<string, unknown> = {};
+    names.forEach((key) => {
+      if (key in this.items) {
+        result[key] = structuredClone(this.items[key]);
+      } else if (key in defaults) {
+        result[key] = defaults[key];
+      }
+    });
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    const next = { ...this.items, ...structuredClone(items) };
+    if (this.quota) {
+      // rejected writes leave the area untouched, like the browsers
+      Object.entries(items).forEach(([key, value]) => {
+        if (itemBytes(key, value) > this.quota!.QUOTA_BYTES_PER_ITEM) {
+          throw new Error('QUOTA_BYTES_PER_ITEM quota exceeded');
+        }
+      });
+      const bytes = Object.entries(next).reduce((total, [key, value]) => total + itemBytes(key, value), 0);
+      if (bytes > this.quota.QUOTA_BYTES) {
+        throw new Error('QUOTA_BYTES quota exceeded');
+      }
+      if (Object.keys(next).length > this.quota.MAX_ITEMS) {
+        throw new Error('MAX_ITEMS quota exceeded');
+      }
+    }
+    const changes = Object.fromEntries(Object.entries(items).map(([key, value]) => [
+      key, { oldValue: this.items[key], newValue: value },
+    ]));
+    this.items = next;
+    this.notify(changes);
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    const changes = {};
+    [keys].flat().filter((key) => key in this.items).forEach((key) => {
+      changes[key] = { oldValue: this.items[key] };
+      delete this.items[key];
+    });
+    this.notify(changes);
+  }
+
+  async clear(): Promise<void> {
+    await this.remove(Object.keys(this.items));
+  }
+
+  async getBytesInUse(): Promise<number> {
+    return Object.entries(this.items).reduce((total, [key, value]) => total + itemBytes(key, value), 0);
+  }
+
+  private notify(changes: Record<string, unknown>) {
+    if (Object.keys(changes).length > 0) {
+      this.onChanged.emit(changes);
+      this.changed.emit(changes, this.areaName);
+    }
+  }
+}
+
+/* eslint-disable no-unused-vars */
+export interface FakeBrowser {
+  storage: {
+    local: FakeStorageArea
+    sync: FakeStorageArea
+    onChanged: FakeEvent
+  }
+  tabs: {
+    created: Record<string, unknown>[]
+    query(query?: object): Promise<Record<string, unknown>[]>
+    create(props: Record<string, unknown>): Promise<Record<string, unknown>>
+    update(tabId: number | Record<string, unknown>, props?: Record<string, unknown>): Promise<Record<string, unknown>>
+    remove(tabId: number): Promise<void>
+    highlight(info: object): Promise<void>
+  }
+  permissions: {
+    granted: Set<string>
+    contains(permissions: { origins?: string[], permissions?: string[] }): Promise<boolean>
+    request(permissions: { origins?: string[], permissions?: string[] }): Promise<boolean>
+    onAdded: FakeEvent
+  }
+  contextualIdentities: {
+    identities: Record<string, unknown>[]
+    query(details?: { name?: string }): Promise<Record<string, unknown>[]>
+    create(details: Record<string, unknown>): Promise<Record<string, unknown>>
+    remove(cookieStoreId: string): Promise<Record<string, unknown> | null>
+  }
+  commands: {
+    getAll(): Promise<{ name: string, shortcut: string, description: string }[]>
+    onCommand: FakeEvent
+  }
+  runtime: {
+    id: string
+    getManifest(): { version: string }
+    getURL(path: string): string
+    sendMessage(message: unknown): Promise<void>
+    openOptionsPage(): Promise<void>
+    onMessage: FakeEvent
+    onInstalled: FakeEvent
+  }
+  windows: {
+    update(windowId: number, props: object): Promise<void>
+  }
+  // reset between tests, keeps listeners
+  reset(): void
+  asBrowser(): Browser
+}
+/* eslint-enable no-unused-vars */
+
+export function createFakeBrowser(): FakeBrowser {
+  const changed = fakeEvent();
+  let tabId = 0;
+  let identityId = 0;
+  const fake: FakeBrowser = {
+    storage: {
+      local: new FakeStorageArea('local', changed),
+      sync: new FakeStorageArea('sync', changed, SYNC_QUOTA),
+      onChanged: changed,
+    },
+    tabs: {
+      created: [],
+      query: async () => [{ id: 1, windowId: 1, active: true, url: 'about:blank' }],
+      create: async (props) => {
+        tabId += 1;
+        const tab = { id: tabId, windowId: 1, ...props };
+        fake.tabs.created.push(tab);
+        return tab;
+      },
+      update: async (id, props) => ({ id, ...props }),
+      remove: async () => {},
+      highlight: async () => {},
+    },
+    permissions: {
+      granted: new Set(),
+      contains: async ({ origins = [], permissions = [] }) => [...origins, ...permissions]
+        .every((p) => fake.permissions.granted.has(p)),
+      request: async ({ origins = [], permissions = [] }) => {
+        [...origins, ...permissions].forEach((p) => fake.permissions.granted.add(p));
+        fake.permissions.onAdded.emit({ origins, permissions });
+        return true;
+      },
+      onAdded: fakeEvent(),
+    },
+    contextualIdentities: {
+      identities: [],
+      query: async ({ name } = {}) => fake.contextualIdentities.identities
+        .filter((identity) => name === undefined || identity.name === name),
+      create: async (details) => {
+        identityId += 1;
+        const identity = { cookieStoreId: `firefox-container-${identityId}`, ...details };
+        fake.contextualIdentities.identities.push(identity);
+        return identity;
+      },
+      remove: async (cookieStoreId) => {
+        const identity = fake.contextualIdentities.identities.find((i) => i.cookieStoreId === cookieStoreId);
+        fake.contextualIdentities.identities = fake.contextualIdentities.identities.filter((i) => i !== identity);
+        return identity || null;
+      },
+    },
+    commands: {
+      getAll: async () => ['openProfile1', 'openProfile2', 'openProfile3'].map((name, idx) => ({
+        name, shortcut: `Alt+Shift+${idx + 1}`, description: `Open profile ${idx + 1}`,
+      })),
+      onCommand: fakeEvent(),
+    },
+    runtime: {
+      id: 'fake-extension-id',
+      getManifest: () => ({ version: '0.0.0' }),
+      getURL: (path) => `chrome-extension://fake-extension-id/${path.replace(/^\//, '')}`,
+      sendMessage: async () => {},
+      openOptionsPage: async () => {},
+      onMessage: fakeEvent(),
+      onInstalled: fakeEvent(),
+    },
+    windows: {
+      update: async () => {},
+    },
+    reset: () => {
+      fake.storage.local.items = {};
+      fake.storage.sync.items = {};
+      fake.tabs.created = [];
+      fake.permissions.granted = new Set();
+      fake.contextualIdentities.identities = [];
+    },
+    asBrowser: () => fake as unknown as Browser,
+  };
+  return fake;
+}
+
+// backs the webextension-polyfill mock, see test/setup.ts
+export const fakeBrowser = createFakeBrowser();
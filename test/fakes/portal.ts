@@ -0,0 +1,84 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { AppData, ProfileData, UserData } from '../../src/types';
+
+/* local stand-in for the portal.sso.{region}.amazonaws.com api */
+
+export interface FakePortalOptions {
+  user: Partial<UserData>
+  apps: AppData[]
+  profiles: Record<string, ProfileData[]>
+  token?: string
+  // path -> number of 429 responses before it succeeds
+  throttle?: Record<string, number>
+  latencyMs?: number
+  // path -> fixed response, e.g. errors & malformed bodies
+  responses?: Record<string, { status: number, body: string }>
+}
+
+export interface FakePortalRequest {
+  path: string
+  status: number
+  token: string | undefined
+}
+
+export interface FakePortal {
+  url: string
+  requests: FakePortalRequest[]
+  // most requests in flight at once, the client allows 3
+  maxInFlight: number
+  close(): Promise<void>
+}
+
+export async function startFakePortal(options: FakePortalOptions): Promise<FakePortal> {
+  const throttle = { ...options.throttle };
+  let inFlight = 0;
+  const portal = {
+    url: '',
+    requests: [] as FakePortalRequest[],
+    maxInFlight: 0,
+    close: () => new Promise<void>((resolve) => { server.close(() => resolve()); }),
+  };
+
+  function route(path: string): [number, unknown] {
+    const fixed = options.responses?.[path];
+    if (fixed) {
+      return [fixed.status, fixed.body];
+    }
+    if (throttle[path] > 0) {
+      throttle[path] -= 1;
+      return [429, { message: 'Rate exceeded' }];
+    }
+    if (path === '/user') {
+      return [200, options.user];
+    }
+    if (path === '/instance/appinstances') {
+      return [200, { result: options.apps }];
+    }
+    const profiles = path.match(/^\/instance\/appinstance\/(?<appId>[^/]+)\/profiles$/);
+    if (profiles) {
+      return [200, { result: options.profiles[profiles.groups!.appId] || [] }];
+    }
+    return [404, { message: 'Not found' }];
+  }
+
+  const server = http.createServer((req, res) => {
+    inFlight += 1;
+    portal.maxInFlight = Math.max(portal.maxInFlight, inFlight);
+    const token = req.headers['x-amz-sso_bearer_token'] as string | undefined;
+    const path = new URL(req.url!, 'http://localhost').pathname;
+    const [status, body] = token === (options.token ?? 'test-token')
+      ? route(path)
+      : [401, { message: 'Unauthorized' }];
+    portal.requests.push({ path, status, token });
+    setTimeout(() => {
+      inFlight -= 1;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    }, options.latencyMs ?? 0);
+  });
+
+  await new Promise<void>((resolve) => { server.listen(0, '127.0.0.1', resolve); });
+  portal.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return portal;
+}
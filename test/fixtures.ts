@@ -0,0 +1,48 @@
+import type { AppData, ProfileData, UserData } from '../src/types';
+
+/* portal responses for a user with two aws accounts & one custom app */
+
+export const portalUser = {
+  userId: 'user-1',
+  subject: 'jane@example.com',
+  email: 'jane@example.com',
+  accountId: '999999999999',
+  ssoInstanceId: 'ssoins-1',
+} as Partial<UserData>;
+
+export function awsAccount(accountId: string, accountName: string): AppData {
+  return {
+    id: `ins-${accountId}`,
+    name: 'AWS Account',
+    applicationId: 'app-aws',
+    applicationName: 'AWS Account',
+    description: 'AWS Account',
+    icon: '',
+    searchMetadata: { AccountId: accountId, AccountName: accountName, AccountEmail: `${accountName}@example.com` },
+  } as AppData;
+}
+
+export function profile(id: string, name: string): ProfileData {
+  return {
+    id, name, description: '', protocol: 'SAML', relayState: '', url: '',
+  };
+}
+
+export const portalApps: AppData[] = [
+  awsAccount('111111111111', 'production'),
+  awsAccount('222222222222', 'staging'),
+  {
+    id: 'ins-slack',
+    name: 'Slack',
+    applicationId: 'app-slack',
+    applicationName: 'Slack',
+    description: 'Slack',
+    icon: '',
+  } as AppData,
+];
+
+export const portalProfiles: Record<string, ProfileData[]> = {
+  'ins-111111111111': [profile('p-prod-admin', 'AdministratorAccess'), profile('p-prod-read', 'ReadOnlyAccess')],
+  'ins-222222222222': [profile('p-stage-admin', 'AdministratorAccess')],
+  'ins-slack': [profile('p-slack', 'Default')],
+};
@@ -0,0 +1,87 @@
+import {
+  describe, expect, it, vi,
+} from 'vitest';
+import extension from '../src/extension';
+import { filterLog, logEntry, redact } from '../src/utils/logger';
+import { fakeBrowser } from './fakes/browser';
+
+const { name } = extension.config;
+const { local } = fakeBrowser.storage;
+
+describe('redact', () => {
+  it('masks secrets, personal fields & emails in text', () => {
+    expect(redact({
+      headers: { 'x-amz-sso_bearer_token': 'abc' },
+      user: { subject: 'jane', email: 'jane@example.com', userId: 'user-1' },
+      note: 'signed in as jane@example.com with x-amz-sso_authn=secret; eyJhbGciOi.eyJzdWIi.c2lnbmF0dXJl',
+    })).toEqual({
+      headers: { 'x-amz-sso_bearer_token': '[redacted]' },
+      user: { subject: '[redacted]', email: '[redacted]', userId: 'user-1' },
+      note: 'signed in as [email] with x-amz-sso_authn=[redacted]; [token]',
+    });
+  });
+
+  it('names class instances & stops at circular references', () => {
+    const data: Record<string, unknown> = { ext: extension, err: new Error('failed for a@b.io') };
+    data.self = data;
+    expect(redact(data)).toEqual({
+      ext: '[Extension]',
+      err: { name: 'Error', message: 'failed for [email]' },
+      self: '[…]',
+    });
+  });
+});
+
+describe('log', () => {
+  it('keeps a bounded ring buffer of redacted entries', async () => {
+    for (let i = 0; i < 510; i += 1) {
+      extension.log(`entry:${i}`);
+    }
+    extension.log('aws-sso:sync:failed', 'error', { email: 'jane@example.com' });
+    const entries = await extension.loadLog();
+    expect(entries).toHaveLength(500);
+    expect(entries[0].message).toBe('entry:11');
+    expect(entries[499]).toMatchObject({
+      level: 'error',
+      context: 'background',
+      message: 'aws-sso:sync:failed',
+      data: '{"email":"[redacted]"}',
+    });
+    expect(local.items[`${name}-log`]).not.toContain('jane@example.com');
+  });
+
+  it('redacts what it prints to the console', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    extension.log('aws-sso:sync:failed for jane@example.com', 'error', { email: 'jane@example.com', token: 'abc' });
+    expect(error).toHaveBeenCalledWith(
+      `${name}:aws-sso:sync:failed for [email]`,
+      { email: '[redacted]', token: '[redacted]' },
+    );
+    error.mockRestore();
+    await extension.flushLog();
+  });
+
+  it('exports & clears the log', async () => {
+    extension.log('removeUser:user-1', 'info');
+    expect(await extension.exportLog()).toMatchObject({
+      platform: expect.any(String),
+      entries: [expect.objectContaining({ message: 'removeUser:user-1', level: 'info' })],
+    });
+    await extension.clearLog();
+    expect(await extension.loadLog()).toEqual([]);
+  });
+});
+
+describe('filterLog', () => {
+  const entries = [
+    logEntry('loadData', 'debug', 'popup'),
+    logEntry('saveSync:overflow:x', 'warn', 'options'),
+    logEntry('aws-sso:sync:failed', 'error', 'example.awsapps.com', { category: 'throttled' }),
+  ];
+
+  it('filters by minimum level, context & text', () => {
+    expect(filterLog(entries, { level: 'warn', context: '', search: '' })).toHaveLength(2);
+    expect(filterLog(entries, { level: 'debug', context: 'popup', search: '' })).toHaveLength(1);
+    expect(filterLog(entries, { level: 'debug', context: '', search: 'THROTTLED' })).toEqual([entries[2]]);
+  });
+});
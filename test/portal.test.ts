@@ -0,0 +1,143 @@
+import {
+  afterEach, beforeEach, describe, expect, it, vi,
+} from 'vitest';
+import extension from '../src/extension';
+import api, { ApiError, syncPortal } from '../src/utils/api';
+import { fakeBrowser } from './fakes/browser';
+import { type FakePortal, type FakePortalOptions, startFakePortal } from './fakes/portal';
+import { portalApps, portalProfiles, portalUser } from './fixtures';
+
+let portal: FakePortal | null = null;
+
+async function start(options: Partial<FakePortalOptions> = {}) {
+  portal = await startFakePortal({
+    user: portalUser, apps: portalApps, profiles: portalProfiles, ...options,
+  });
+  extension.ssoUrl = portal.url;
+  return portal;
+}
+
+beforeEach(() => {
+  // the portal session cookie
+  vi.stubGlobal('document', { cookie: 'x-amz-sso_authn=test-token' });
+  extension.apps = [];
+  extension.loaded = false;
+});
+
+afterEach(async () => {
+  await portal?.close();
+  portal = null;
+});
+
+describe('api', () => {
+  it('sends the sso token & returns the response', async () => {
+    const { requests } = await start();
+    expect(await api('/user')).toEqual(portalUser);
+    expect(requests).toEqual([{ path: '/user', status: 200, token: 'test-token' }]);
+  });
+
+  it('fails without a portal session', async () => {
+    vi.stubGlobal('document', { cookie: '' });
+    const { requests } = await start();
+    await expect(api('/user')).rejects.toThrow('No SSO token found');
+    expect(requests).toEqual([]);
+  });
+
+  it('retries throttled requests with backoff', async () => {
+    const { requests } = await start({ throttle: { '/user': 2 } });
+    expect(await api('/user')).toEqual(portalUser);
+    expect(requests.map((r) => r.status)).toEqual([429, 429, 200]);
+  });
+
+  it('gives up after three retries', async () => {
+    const { requests } = await start({ throttle: { '/user': 10 } });
+    await expect(api('/user')).rejects.toMatchObject({ category: 'throttled', status: 429 });
+    expect(requests.map((r) => r.status)).toEqual([429, 429, 429, 429]);
+  });
+
+  it('categorizes http & parse errors', async () => {
+    await start({
+      responses: {
+        '/user': { status: 403, body: '{"message":"Forbidden"}' },
+        '/instance/appinstances': { status: 200, body: '<html>' },
+      },
+    });
+    await expect(api('/user')).rejects.toMatchObject({ category: 'http', status: 403 });
+    await expect(api('/instance/appinstances')).rejects.toBeInstanceOf(ApiError);
+    await expect(api('/instance/appinstances')).rejects.toMatchObject({ category: 'parse' });
+  });
+});
+
+describe('syncPortal', () => {
+  it('saves the user & app profiles through throttling, at most 3 requests at a time', async () => {
+    const fake = await start({
+      latencyMs: 50,
+      throttle: {
+        '/instance/appinstances': 1,
+        '/instance/appinstance/ins-slack/profiles': 2,
+      },
+    });
+    const user = await syncPortal('us-east-1', 'aws', true);
+    expect(user.userId).toBe('user-1');
+    expect(fake.maxInFlight).toBeLessThanOrEqual(3);
+    expect(fake.requests.filter((r) => r.status === 429)).toHaveLength(3);
+
+    const data = await extension.loadData();
+    expect(data.users).toHaveLength(1);
+    expect(data.users[0]).toMatchObject({ userId: 'user-1', ssoRegion: 'us-east-1', partition: 'aws' });
+    expect(data.users[0].appProfileIds.sort())
+      .toEqual(['p-prod-admin', 'p-prod-read', 'p-slack', 'p-stage-admin']);
+    expect(data.appProfiles.find((ap) => ap.profile.id === 'p-stage-admin')?.searchMetadata?.AccountId)
+      .toBe('222222222222');
+    expect((await extension.loadSessions()).portals).toHaveProperty('user-1');
+    expect(extension.loaded).toBe(true);
+  }, 10000);
+
+  it('keeps customizations when the portal is synced again', async () => {
+    await start();
+    await syncPortal('us-east-1', 'aws', false);
+    const [user] = (await extension.loadData()).users;
+    user.custom.displayName = 'Jane';
+    await extension.saveUser(user, true);
+
+    extension.apps = [];
+    await syncPortal('us-east-1', 'aws', false);
+    const data = await extension.loadData();
+    expect(data.users[0].custom.displayName).toBe('Jane');
+    expect(data.appProfiles).toHaveLength(4);
+  }, 10000);
+
+  it('records progress & the last success', async () => {
+    await start();
+    await syncPortal('us-east-1', 'aws', false, 'https://example.awsapps.com/start');
+    expect(await extension.loadSyncStatus()).toMatchObject({
+      state: 'success',
+      portalUrl: 'https://example.awsapps.com/start',
+      lastSuccessAt: expect.any(Number),
+      lastFailureAt: null,
+      progress: { apps: 3, appsTotal: 3, profiles: 4 },
+    });
+  });
+
+  it('records the failure category & keeps the portal to retry', async () => {
+    vi.stubGlobal('document', { cookie: '' });
+    await start();
+    await expect(syncPortal('us-east-1', 'aws', false, 'https://example.awsapps.com/start'))
+      .rejects.toThrow('No SSO token found');
+    const status = await extension.loadSyncStatus();
+    expect(status).toMatchObject({
+      state: 'failed',
+      lastSuccessAt: null,
+      error: { category: 'no-token', message: 'No SSO token found' },
+    });
+
+    expect(await extension.retrySync()).toBe(true);
+    expect(fakeBrowser.tabs.created).toEqual([expect.objectContaining({ url: 'https://example.awsapps.com/start' })]);
+  });
+
+  it('records malformed app lists as parse errors', async () => {
+    await start({ responses: { '/instance/appinstances': { status: 200, body: '{"result":null}' } } });
+    await expect(syncPortal('us-east-1', 'aws', false)).rejects.toThrow('Unexpected SSO portal response');
+    expect((await extension.loadSyncStatus()).error).toMatchObject({ category: 'parse' });
+  });
+});
@@ -0,0 +1,13 @@
+import { beforeEach, vi } from 'vitest';
+import { fakeBrowser } from './fakes/browser';
+
+vi.mock('webextension-polyfill', async () => ({
+  default: (await import('./fakes/browser')).fakeBrowser,
+}));
+
+// checkPlatform reads the user agent
+vi.stubGlobal('navigator', { userAgent: 'Chrome' });
+
+beforeEach(() => {
+  fakeBrowser.reset();
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// unit tests run in node against fakes in test/fakes, no browser or aws portal needed
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['test/setup.ts'],
+  },
+});